@@ -1,9 +1,13 @@
 import { LanguageProvider } from "@/context/LanguageContext";
+import { ServerProvider, useServer } from "@/context/ServerContext";
+import { configureLogger } from "@/services/logger";
+import { addFailureNotificationListener } from "@/services/notifications";
+import { isDebugLoggingEnabled } from "@/services/storage";
 import { DarkTheme, ThemeProvider } from "@react-navigation/native";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { Stack } from "expo-router";
-import { useState } from "react";
-import { View } from "react-native";
+import { Href, Stack, useRouter } from "expo-router";
+import { useEffect, useState } from "react";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
 
 const CustomDarkTheme = {
   ...DarkTheme,
@@ -13,32 +17,62 @@ const CustomDarkTheme = {
   },
 };
 
+/**
+ * Open the execution behind a tapped failure notification, on the server it came from
+ */
+function NotificationRouter() {
+  const router = useRouter();
+  const { switchServer } = useServer();
+
+  useEffect(() => {
+    return addFailureNotificationListener(async ({ url, serverId }) => {
+      await switchServer(serverId);
+      router.push(url as Href);
+    });
+  }, [router, switchServer]);
+
+  return null;
+}
+
 export default function RootLayout() {
   const [queryClient] = useState(() => new QueryClient({
     defaultOptions: {
       queries: {
         staleTime: 1000 * 60 * 5, // 5 minutes
-        retry: 2,
+        // The API client already retries GETs with backoff, don't stack another layer on top
+        retry: false,
+      },
+      mutations: {
+        // Writes are never replayed automatically
+        retry: false,
       },
     },
   }));
 
+  // Apply the saved debug logging setting
+  useEffect(() => {
+    isDebugLoggingEnabled().then(enabled => configureLogger({ enabled }));
+  }, []);
+
   return (
     <QueryClientProvider client={queryClient}>
-      <LanguageProvider>
-        <ThemeProvider value={CustomDarkTheme}>
-          <View style={{ flex: 1, backgroundColor: '#121212' }}>
-              <Stack
-              screenOptions={{
-                  headerShown: false,
-                  contentStyle: { backgroundColor: '#121212' },
-                  animation: 'slide_from_right',
-                  gestureEnabled: true,
-              }}
-              />
-          </View>
-        </ThemeProvider>
-      </LanguageProvider>
+      <ServerProvider>
+        <NotificationRouter />
+        <LanguageProvider>
+          <ThemeProvider value={CustomDarkTheme}>
+            <GestureHandlerRootView style={{ flex: 1, backgroundColor: '#121212' }}>
+                <Stack
+                screenOptions={{
+                    headerShown: false,
+                    contentStyle: { backgroundColor: '#121212' },
+                    animation: 'slide_from_right',
+                    gestureEnabled: true,
+                }}
+                />
+            </GestureHandlerRootView>
+          </ThemeProvider>
+        </LanguageProvider>
+      </ServerProvider>
     </QueryClientProvider>
   );
 }
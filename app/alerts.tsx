@@ -0,0 +1,987 @@
+import { AlertConfig, AlertModal, AlertType, HIDDEN_ALERT } from '@/components/ui/AlertModal';
+import { useLanguage } from '@/context/LanguageContext';
+import { requireClient, useServer } from '@/context/ServerContext';
+import { describeCondition, describeFiredAlert } from '@/services/alert-rules';
+import { formatError } from '@/services/api-errors';
+import { createLogger } from '@/services/logger';
+import { createN8nClient } from '@/services/n8n-api';
+import {
+  requestNotificationPermission,
+  runAlertRules,
+  syncBackgroundMonitor,
+} from '@/services/notifications';
+import {
+  getActiveServerId,
+  getAlertHistory,
+  getAlertRules,
+  getServers,
+  removeAlertRule,
+  saveAlertRule,
+} from '@/services/storage';
+import { AlertCondition, AlertConditionType, AlertRule, FiredAlert } from '@/types/alerts';
+import { N8nServer } from '@/types/n8n';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useRouter } from 'expo-router';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Animated, { FadeInDown, ZoomIn } from 'react-native-reanimated';
+
+// Spotify-inspired Theme Constants
+const THEME = {
+  background: '#121212',
+  surface: '#181818',
+  surfaceHighlight: '#282828',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#B3B3B3',
+  accent: '#EA4B71', // n8n Primary
+  success: '#22c55e',
+  error: '#FF5252',
+};
+
+const log = createLogger('alerts');
+
+const CONDITION_TYPES: AlertConditionType[] = [
+  'errorCount',
+  'taggedFailure',
+  'noSuccess',
+  'longRunning',
+];
+
+const CONDITION_ICONS: Record<AlertConditionType, keyof typeof Ionicons.glyphMap> = {
+  errorCount: 'flame-outline',
+  taggedFailure: 'pricetag-outline',
+  noSuccess: 'hourglass-outline',
+  longRunning: 'timer-outline',
+};
+
+// Workflows listed in the picker before searching
+const WORKFLOW_PICKER_LIMIT = 8;
+
+export default function AlertsScreen() {
+  const router = useRouter();
+  const { t } = useLanguage();
+  const { server, client } = useServer();
+
+  // UI Mode
+  const [viewMode, setViewMode] = useState<'list' | 'form'>('list');
+  const [tab, setTab] = useState<'rules' | 'history'>('rules');
+
+  // Form State
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [ruleName, setRuleName] = useState('');
+  const [conditionType, setConditionType] = useState<AlertConditionType>('errorCount');
+  const [workflow, setWorkflow] = useState<{ id: string; name: string } | null>(null);
+  const [workflowSearch, setWorkflowSearch] = useState('');
+  const [threshold, setThreshold] = useState('3');
+  const [windowMinutes, setWindowMinutes] = useState('15');
+  const [hours, setHours] = useState('24');
+  const [minutes, setMinutes] = useState('30');
+  const [tag, setTag] = useState('');
+
+  // Data State
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [history, setHistory] = useState<FiredAlert[]>([]);
+  const [servers, setServers] = useState<N8nServer[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  // UI State
+  const [loadingData, setLoadingData] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [evaluating, setEvaluating] = useState(false);
+  const [alertConfig, setAlertConfig] = useState<AlertConfig>(HIDDEN_ALERT);
+
+  // Workflows of the rule's server, for picking the workflow a rule watches
+  // Rules can watch any server, the context's client is only reused for the active one
+  const ruleServer = servers.find(server => server.id === (editingRule?.serverId ?? activeId));
+  const ruleClient = useMemo(() => {
+    if (!ruleServer) return null;
+    return ruleServer.id === server?.id ? client : createN8nClient(ruleServer);
+  }, [ruleServer, server, client]);
+  const { data: workflows = [], isLoading: loadingWorkflows } = useQuery({
+    queryKey: [ruleServer?.id, 'workflows', 'all'],
+    queryFn: ({ signal }) => requireClient(ruleClient).getWorkflows({ signal }),
+    enabled: viewMode === 'form' && !!ruleClient,
+  });
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoadingData(true);
+      const [ruleList, alertHistory, serverList, currentActive] = await Promise.all([
+        getAlertRules(),
+        getAlertHistory(),
+        getServers(),
+        getActiveServerId(),
+      ]);
+      setRules(ruleList);
+      setHistory(alertHistory);
+      setServers(serverList);
+      setActiveId(currentActive || (serverList.length > 0 ? serverList[0].id : null));
+    } catch (error) {
+      log.error('Error loading alert rules', error);
+    } finally {
+      setLoadingData(false);
+    }
+  };
+
+  const showAlert = (
+    title: string,
+    message: string,
+    type: AlertType = 'success',
+    onConfirm?: () => void
+  ) => {
+    setAlertConfig({ visible: true, title, message, type, onConfirm });
+  };
+
+  const hideAlert = () => {
+    setAlertConfig(prev => ({ ...prev, visible: false }));
+  };
+
+  const getServerName = (serverId: string) =>
+    servers.find(server => server.id === serverId)?.name ?? '—';
+
+  const resetForm = () => {
+    setEditingRule(null);
+    setRuleName('');
+    setConditionType('errorCount');
+    setWorkflow(null);
+    setWorkflowSearch('');
+    setThreshold('3');
+    setWindowMinutes('15');
+    setHours('24');
+    setMinutes('30');
+    setTag('');
+  };
+
+  const handleAddNew = () => {
+    // A rule belongs to a server, there's nothing to watch without one
+    if (!activeId) {
+      showAlert(t.error, t.noServers, 'error');
+      return;
+    }
+    resetForm();
+    setViewMode('form');
+  };
+
+  const handleEdit = (rule: AlertRule) => {
+    resetForm();
+    setEditingRule(rule);
+    setRuleName(rule.name);
+
+    const { condition } = rule;
+    setConditionType(condition.type);
+    switch (condition.type) {
+      case 'errorCount':
+        setWorkflow({ id: condition.workflowId, name: condition.workflowName });
+        setThreshold(String(condition.threshold));
+        setWindowMinutes(String(condition.windowMinutes));
+        break;
+      case 'taggedFailure':
+        setTag(condition.tag);
+        break;
+      case 'noSuccess':
+        setWorkflow({ id: condition.workflowId, name: condition.workflowName });
+        setHours(String(condition.hours));
+        break;
+      case 'longRunning':
+        if (condition.workflowId) {
+          setWorkflow({ id: condition.workflowId, name: condition.workflowName ?? condition.workflowId });
+        }
+        setMinutes(String(condition.minutes));
+        break;
+    }
+    setViewMode('form');
+  };
+
+  const goBackToList = () => {
+    resetForm();
+    setViewMode('list');
+  };
+
+  /**
+   * Build the condition from the form, null when something is missing
+   */
+  const buildCondition = (): AlertCondition | null => {
+    const toPositive = (value: string) => {
+      const parsed = parseInt(value, 10);
+      return parsed > 0 ? parsed : null;
+    };
+
+    switch (conditionType) {
+      case 'errorCount': {
+        const count = toPositive(threshold);
+        const window = toPositive(windowMinutes);
+        if (!workflow || !count || !window) return null;
+        return {
+          type: 'errorCount',
+          workflowId: workflow.id,
+          workflowName: workflow.name,
+          threshold: count,
+          windowMinutes: window,
+        };
+      }
+      case 'taggedFailure':
+        return tag.trim() ? { type: 'taggedFailure', tag: tag.trim() } : null;
+      case 'noSuccess': {
+        const value = toPositive(hours);
+        if (!workflow || !value) return null;
+        return { type: 'noSuccess', workflowId: workflow.id, workflowName: workflow.name, hours: value };
+      }
+      case 'longRunning': {
+        const value = toPositive(minutes);
+        if (!value) return null;
+        return {
+          type: 'longRunning',
+          minutes: value,
+          workflowId: workflow?.id,
+          workflowName: workflow?.name,
+        };
+      }
+    }
+  };
+
+  const handleSave = async () => {
+    const condition = buildCondition();
+    const serverId = editingRule?.serverId ?? activeId;
+    if (!ruleName.trim() || !condition || !serverId) {
+      showAlert(t.error, t.ruleIncomplete, 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveAlertRule({
+        id: editingRule?.id,
+        name: ruleName.trim(),
+        serverId,
+        enabled: editingRule?.enabled ?? true,
+        condition,
+      });
+      const granted = await requestNotificationPermission();
+      await syncBackgroundMonitor();
+      await loadData();
+      goBackToList();
+      showAlert(t.save, granted ? t.ruleSaved : t.notificationsDenied, granted ? 'success' : 'error');
+    } catch (error) {
+      showAlert(t.error, formatError(error, t), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: AlertRule, enabled: boolean) => {
+    setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, enabled } : r)));
+    try {
+      await saveAlertRule({ ...rule, enabled });
+      await syncBackgroundMonitor();
+    } catch (error) {
+      // Put the switch back so it matches what is stored
+      setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, enabled: rule.enabled } : r)));
+      showAlert(t.error, formatError(error, t), 'error');
+    }
+  };
+
+  const handleDelete = (rule: AlertRule) => {
+    showAlert(t.deleteRuleTitle, t.deleteRuleConfirm, 'confirm', async () => {
+      await removeAlertRule(rule.id);
+      await syncBackgroundMonitor();
+      if (editingRule?.id === rule.id) {
+        goBackToList();
+      }
+      loadData();
+    });
+  };
+
+  const handleEvaluate = async () => {
+    setEvaluating(true);
+    try {
+      const fired = await runAlertRules();
+      await loadData();
+      if (fired.length > 0) {
+        setTab('history');
+        showAlert(t.alertRules, `${fired.length} ${t.alertsFired}`, 'success');
+      } else {
+        showAlert(t.alertRules, t.noNewAlerts, 'success');
+      }
+    } catch (error) {
+      showAlert(t.error, formatError(error, t), 'error');
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  const conditionLabels: Record<AlertConditionType, string> = {
+    errorCount: t.conditionErrorCount,
+    taggedFailure: t.conditionTaggedFailure,
+    noSuccess: t.conditionNoSuccess,
+    longRunning: t.conditionLongRunning,
+  };
+
+  const matchingWorkflows = workflows
+    .filter(w => w.name.toLowerCase().includes(workflowSearch.toLowerCase()))
+    .slice(0, WORKFLOW_PICKER_LIMIT);
+
+  const renderRuleItem = ({ item, index }: { item: AlertRule; index: number }) => (
+    <Animated.View entering={FadeInDown.delay(Math.min(index, 10) * 100).springify()}>
+      <TouchableOpacity
+        style={[styles.card, !item.enabled && styles.cardDisabled]}
+        onPress={() => handleEdit(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.cardInner}>
+          <View style={styles.iconContainer}>
+            <Ionicons
+              name={CONDITION_ICONS[item.condition.type]}
+              size={22}
+              color={item.enabled ? THEME.accent : THEME.textSecondary}
+            />
+          </View>
+
+          <View style={styles.cardInfo}>
+            <Text style={styles.cardTitle}>{item.name}</Text>
+            <Text style={styles.cardSubtitle} numberOfLines={2}>
+              {describeCondition(item.condition, t)}
+            </Text>
+            <Text style={styles.cardMeta}>{getServerName(item.serverId)}</Text>
+          </View>
+
+          <Switch
+            value={item.enabled}
+            onValueChange={enabled => handleToggleRule(item, enabled)}
+            trackColor={{ false: THEME.surfaceHighlight, true: THEME.accent }}
+            thumbColor={THEME.textPrimary}
+          />
+        </View>
+
+        <View style={styles.cardFooter}>
+          <TouchableOpacity onPress={() => handleDelete(item)} style={styles.footerAction}>
+            <Ionicons name="trash-outline" size={16} color={THEME.error} />
+            <Text style={[styles.footerActionText, { color: THEME.error }]}>{t.delete}</Text>
+          </TouchableOpacity>
+
+          <View style={styles.footerAction}>
+            <Text style={styles.footerActionText}>{t.edit}</Text>
+            <Ionicons name="chevron-forward" size={14} color={THEME.textSecondary} />
+          </View>
+        </View>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+
+  const renderHistoryItem = ({ item }: { item: FiredAlert }) => {
+    // Only alerts on the active server can be opened, executions belong to their server
+    const canOpen = !!item.executionId && item.serverId === activeId;
+
+    return (
+      <TouchableOpacity
+        style={styles.historyItem}
+        onPress={() => router.push(`/execution/${item.executionId}`)}
+        disabled={!canOpen}
+        activeOpacity={0.7}
+      >
+        <Ionicons
+          name={CONDITION_ICONS[item.conditionType]}
+          size={18}
+          color={THEME.error}
+          style={styles.historyIcon}
+        />
+        <View style={styles.cardInfo}>
+          <Text style={styles.cardTitle}>{item.ruleName}</Text>
+          <Text style={styles.cardSubtitle}>{describeFiredAlert(item, t)}</Text>
+          <Text style={styles.cardMeta}>
+            {getServerName(item.serverId)} · {format(new Date(item.firedAt), 'd MMM, HH:mm', { locale: es })}
+          </Text>
+        </View>
+        {canOpen && <Ionicons name="chevron-forward" size={16} color={THEME.textSecondary} />}
+      </TouchableOpacity>
+    );
+  };
+
+  if (loadingData && rules.length === 0 && history.length === 0) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={THEME.accent} />
+        <Text style={styles.loadingText}>{t.loading}</Text>
+      </View>
+    );
+  }
+
+  const needsWorkflow = conditionType === 'errorCount' || conditionType === 'noSuccess';
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <StatusBar barStyle="light-content" />
+
+      {/* HEADER */}
+      <View style={styles.headerRow}>
+        <TouchableOpacity
+          style={styles.closeButton}
+          onPress={viewMode === 'form' ? goBackToList : () => router.back()}
+        >
+          <Ionicons
+            name={viewMode === 'form' ? 'arrow-back' : 'close'}
+            size={24}
+            color={THEME.textPrimary}
+          />
+        </TouchableOpacity>
+
+        <View style={styles.headerTextContainer}>
+          <Text style={styles.title}>
+            {viewMode === 'list' ? t.alertRules : editingRule ? t.editRule : t.newRule}
+          </Text>
+          {viewMode === 'list' && <Text style={styles.subtitle}>{t.alertRulesSubtitle}</Text>}
+        </View>
+
+        {viewMode === 'list' ? (
+          <TouchableOpacity style={styles.closeButton} onPress={handleEvaluate} disabled={evaluating}>
+            {evaluating ? (
+              <ActivityIndicator color={THEME.textPrimary} size="small" />
+            ) : (
+              <Ionicons name="play" size={20} color={THEME.textPrimary} />
+            )}
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
+      </View>
+
+      {/* CONTENT */}
+      {viewMode === 'list' ? (
+        <View style={styles.listContainer}>
+          {/* Tabs */}
+          <View style={styles.tabRow}>
+            {(['rules', 'history'] as const).map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.tab, tab === value && styles.tabActive]}
+                onPress={() => setTab(value)}
+              >
+                <Text style={[styles.tabText, tab === value && styles.tabTextActive]}>
+                  {value === 'rules' ? t.alertRules : t.alertHistory}
+                  {value === 'history' && history.length > 0 ? ` (${history.length})` : ''}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {tab === 'rules' ? (
+            <FlatList
+              data={rules}
+              renderItem={renderRuleItem}
+              keyExtractor={item => item.id}
+              contentContainerStyle={styles.listContent}
+              ListEmptyComponent={
+                <View style={styles.emptyContainer}>
+                  <Ionicons name="notifications-off-outline" size={64} color={THEME.surfaceHighlight} />
+                  <Text style={styles.emptyText}>{t.noRules}</Text>
+                  <Text style={[styles.emptyText, { fontSize: 13, marginTop: 8 }]}>
+                    {t.noRulesHint}
+                  </Text>
+                </View>
+              }
+            />
+          ) : (
+            <FlatList
+              data={history}
+              renderItem={renderHistoryItem}
+              keyExtractor={item => item.key}
+              contentContainerStyle={styles.listContent}
+              ListEmptyComponent={
+                <View style={styles.emptyContainer}>
+                  <Ionicons name="checkmark-done-outline" size={64} color={THEME.surfaceHighlight} />
+                  <Text style={styles.emptyText}>{t.noAlerts}</Text>
+                </View>
+              }
+            />
+          )}
+
+          {/* FAB */}
+          {tab === 'rules' && (
+            <Animated.View
+              entering={ZoomIn.delay(300).springify()}
+              style={{ position: 'absolute', bottom: 40, right: 24 }}
+            >
+              <TouchableOpacity style={styles.fab} onPress={handleAddNew}>
+                <Ionicons name="add" size={32} color="#FFFFFF" />
+              </TouchableOpacity>
+            </Animated.View>
+          )}
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.formContainer}
+          contentContainerStyle={styles.formContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>{t.ruleName}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={t.ruleNamePlaceholder}
+              placeholderTextColor={THEME.textSecondary}
+              value={ruleName}
+              onChangeText={setRuleName}
+              editable={!saving}
+            />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>{t.condition}</Text>
+            {CONDITION_TYPES.map(type => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.option, conditionType === type && styles.optionActive]}
+                onPress={() => setConditionType(type)}
+              >
+                <Ionicons
+                  name={CONDITION_ICONS[type]}
+                  size={18}
+                  color={conditionType === type ? THEME.accent : THEME.textSecondary}
+                />
+                <Text style={[styles.optionText, conditionType === type && styles.optionTextActive]}>
+                  {conditionLabels[type]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Condition values */}
+          {conditionType === 'errorCount' && (
+            <View style={styles.inlineInputs}>
+              <View style={[styles.inputContainer, styles.inlineInput]}>
+                <Text style={styles.label}>{t.errorThreshold}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={threshold}
+                  onChangeText={setThreshold}
+                  keyboardType="number-pad"
+                />
+              </View>
+              <View style={[styles.inputContainer, styles.inlineInput]}>
+                <Text style={styles.label}>{t.windowMinutes}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={windowMinutes}
+                  onChangeText={setWindowMinutes}
+                  keyboardType="number-pad"
+                />
+              </View>
+            </View>
+          )}
+
+          {conditionType === 'taggedFailure' && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>{t.tag}</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={t.tagPlaceholder}
+                placeholderTextColor={THEME.textSecondary}
+                value={tag}
+                onChangeText={setTag}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+          )}
+
+          {conditionType === 'noSuccess' && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>{t.hoursWithoutSuccess}</Text>
+              <TextInput
+                style={styles.input}
+                value={hours}
+                onChangeText={setHours}
+                keyboardType="number-pad"
+              />
+            </View>
+          )}
+
+          {conditionType === 'longRunning' && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>{t.maxMinutesRunning}</Text>
+              <TextInput
+                style={styles.input}
+                value={minutes}
+                onChangeText={setMinutes}
+                keyboardType="number-pad"
+              />
+            </View>
+          )}
+
+          {/* Workflow picker */}
+          {conditionType !== 'taggedFailure' && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Workflow</Text>
+
+              {workflow ? (
+                <View style={[styles.option, styles.optionActive]}>
+                  <Ionicons name="git-branch-outline" size={18} color={THEME.accent} />
+                  <Text style={[styles.optionText, styles.optionTextActive]} numberOfLines={1}>
+                    {workflow.name}
+                  </Text>
+                  <TouchableOpacity onPress={() => setWorkflow(null)}>
+                    <Ionicons name="close-circle" size={20} color={THEME.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <>
+                  {!needsWorkflow && (
+                    <Text style={styles.helpText}>{t.anyWorkflow}</Text>
+                  )}
+                  <View style={styles.searchBar}>
+                    <Ionicons name="search" size={18} color={THEME.textSecondary} style={styles.searchIcon} />
+                    <TextInput
+                      style={styles.searchInput}
+                      placeholder={t.searchPlaceholder}
+                      placeholderTextColor={THEME.textSecondary}
+                      value={workflowSearch}
+                      onChangeText={setWorkflowSearch}
+                      autoCorrect={false}
+                    />
+                  </View>
+                  {loadingWorkflows ? (
+                    <ActivityIndicator color={THEME.accent} style={{ marginTop: 8 }} />
+                  ) : (
+                    matchingWorkflows.map(w => (
+                      <TouchableOpacity
+                        key={w.id}
+                        style={styles.option}
+                        onPress={() => setWorkflow({ id: w.id, name: w.name })}
+                      >
+                        <Ionicons name="git-branch-outline" size={18} color={THEME.textSecondary} />
+                        <Text style={styles.optionText} numberOfLines={1}>
+                          {w.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))
+                  )}
+                </>
+              )}
+            </View>
+          )}
+
+          <View style={styles.actionsContainer}>
+            <TouchableOpacity
+              style={[styles.button, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.buttonText}>{t.save}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      )}
+
+      <AlertModal config={alertConfig} onClose={hideAlert} />
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: THEME.background,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 40,
+    paddingHorizontal: 16,
+    paddingBottom: 20,
+    backgroundColor: THEME.background,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.surfaceHighlight,
+  },
+  headerTextContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: THEME.textPrimary,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: THEME.surfaceHighlight,
+    borderRadius: 20,
+  },
+  tabRow: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 10,
+    padding: 2,
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  tabActive: {
+    backgroundColor: THEME.surfaceHighlight,
+  },
+  tabText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.textSecondary,
+  },
+  tabTextActive: {
+    color: THEME.textPrimary,
+  },
+  listContainer: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: THEME.textSecondary,
+    textAlign: 'center',
+    marginTop: 20,
+    fontStyle: 'italic',
+    fontSize: 16,
+  },
+  card: {
+    backgroundColor: THEME.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+    overflow: 'hidden',
+  },
+  cardDisabled: {
+    opacity: 0.6,
+  },
+  cardInner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 14,
+    backgroundColor: THEME.surfaceHighlight,
+  },
+  cardInfo: {
+    flex: 1,
+    gap: 4,
+    marginRight: 8,
+  },
+  cardTitle: {
+    color: THEME.textPrimary,
+    fontWeight: 'bold',
+    fontSize: 15,
+  },
+  cardSubtitle: {
+    color: THEME.textSecondary,
+    fontSize: 13,
+  },
+  cardMeta: {
+    color: THEME.textSecondary,
+    fontSize: 11,
+    opacity: 0.8,
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 15,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.05)',
+  },
+  footerAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  footerActionText: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+  },
+  historyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderLeftWidth: 3,
+    borderLeftColor: THEME.error,
+  },
+  historyIcon: {
+    marginRight: 12,
+  },
+  fab: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: THEME.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 4.65,
+    elevation: 8,
+  },
+  formContainer: {
+    flex: 1,
+  },
+  formContent: {
+    padding: 24,
+    paddingBottom: 40,
+  },
+  inputContainer: {
+    marginBottom: 16,
+    gap: 8,
+  },
+  inlineInputs: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inlineInput: {
+    flex: 1,
+  },
+  label: {
+    color: THEME.textPrimary,
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: THEME.surface,
+    borderRadius: 8,
+    padding: 16,
+    color: THEME.textPrimary,
+    fontSize: 16,
+  },
+  helpText: {
+    color: THEME.textSecondary,
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: THEME.surface,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  optionActive: {
+    borderColor: THEME.accent,
+    backgroundColor: 'rgba(234, 75, 113, 0.1)',
+  },
+  optionText: {
+    flex: 1,
+    color: THEME.textSecondary,
+    fontSize: 14,
+  },
+  optionTextActive: {
+    color: THEME.textPrimary,
+    fontWeight: '600',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    height: 44,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    color: THEME.textPrimary,
+    fontSize: 14,
+    height: '100%',
+  },
+  actionsContainer: {
+    gap: 16,
+    marginTop: 24,
+  },
+  button: {
+    backgroundColor: THEME.accent,
+    borderRadius: 30,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  loadingText: {
+    marginTop: 16,
+    color: THEME.textSecondary,
+  },
+});
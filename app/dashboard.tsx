@@ -0,0 +1,378 @@
+import { useLanguage } from '@/context/LanguageContext';
+import { useServer } from '@/context/ServerContext';
+import { describeError } from '@/services/api-errors';
+import { DashboardFailure, getDashboard, ServerHealth } from '@/services/dashboard';
+import { getServers } from '@/services/storage';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useRouter } from 'expo-router';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+
+// Spotify-inspired Theme Constants
+const THEME = {
+  background: '#121212',
+  surface: '#181818',
+  surfaceHighlight: '#282828',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#B3B3B3',
+  accent: '#EA4B71', // n8n Primary
+  success: '#22c55e',
+  error: '#FF5252',
+};
+
+export default function DashboardScreen() {
+  const router = useRouter();
+  const { t } = useLanguage();
+  const { server: activeServer, switchServer } = useServer();
+
+  // Spans every server, so it isn't keyed on one
+  const { data, isLoading, isRefetching, refetch } = useQuery({
+    queryKey: ['dashboard'],
+    queryFn: async () => getDashboard(await getServers()),
+  });
+
+  // Executions and workflows belong to their server, switch before opening one
+  const handleOpenServer = async (health: ServerHealth) => {
+    if (health.server.id !== activeServer?.id) {
+      await switchServer(health.server.id);
+    }
+    router.back();
+  };
+
+  const handleOpenFailure = async (failure: DashboardFailure) => {
+    if (failure.server.id !== activeServer?.id) {
+      await switchServer(failure.server.id);
+    }
+    router.push(`/execution/${failure.execution.id}`);
+  };
+
+  const renderHealthCard = (health: ServerHealth, index: number) => {
+    const isCurrent = health.server.id === activeServer?.id;
+
+    return (
+      <Animated.View
+        key={health.server.id}
+        entering={FadeInDown.delay(Math.min(index, 10) * 100).springify()}
+      >
+        <TouchableOpacity
+          style={[styles.card, !health.reachable && styles.cardOffline]}
+          onPress={() => handleOpenServer(health)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.cardHeader}>
+            <View
+              style={[
+                styles.statusDot,
+                { backgroundColor: health.reachable ? THEME.success : THEME.error },
+              ]}
+            />
+            <View style={styles.cardInfo}>
+              <Text style={styles.cardTitle} numberOfLines={1}>
+                {health.server.name}
+              </Text>
+              <Text style={styles.cardMeta} numberOfLines={1}>
+                {health.server.serverUrl}
+              </Text>
+            </View>
+            {isCurrent && (
+              <View style={styles.currentBadge}>
+                <Text style={styles.currentBadgeText}>{t.current}</Text>
+              </View>
+            )}
+          </View>
+
+          {health.reachable ? (
+            <View style={styles.statsRow}>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{health.workflowCount}</Text>
+                <Text style={styles.statLabel}>{t.total}</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={[styles.statValue, { color: THEME.success }]}>
+                  {health.activeCount}
+                </Text>
+                <Text style={styles.statLabel}>{t.activeCount}</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text
+                  style={[
+                    styles.statValue,
+                    { color: health.errorCount > 0 ? THEME.error : THEME.textPrimary },
+                  ]}
+                >
+                  {health.errorCount}
+                  {health.errorCountCapped ? '+' : ''}
+                </Text>
+                <Text style={styles.statLabel}>{t.errors24h}</Text>
+              </View>
+            </View>
+          ) : (
+            <View style={styles.offlineRow}>
+              <Text style={styles.offlineLabel}>{t.offline}</Text>
+              <Text style={styles.offlineText} numberOfLines={2}>
+                {describeError(health.error, t).message}
+              </Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </Animated.View>
+    );
+  };
+
+  const renderFailure = (failure: DashboardFailure) => (
+    <TouchableOpacity
+      key={`${failure.server.id}:${failure.execution.id}`}
+      style={styles.failureItem}
+      onPress={() => handleOpenFailure(failure)}
+      activeOpacity={0.7}
+    >
+      <Ionicons name="close-circle" size={18} color={THEME.error} style={styles.failureIcon} />
+      <View style={styles.cardInfo}>
+        <Text style={styles.failureTitle} numberOfLines={1}>
+          {failure.workflowName}
+        </Text>
+        <Text style={styles.cardMeta}>
+          {failure.server.name} · #{failure.execution.id} ·{' '}
+          {formatDistanceToNow(new Date(failure.execution.startedAt), {
+            addSuffix: true,
+            locale: es,
+          })}
+        </Text>
+      </View>
+      <Ionicons name="chevron-forward" size={16} color={THEME.textSecondary} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      {/* HEADER */}
+      <View style={styles.headerRow}>
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <Ionicons name="close" size={24} color={THEME.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerTextContainer}>
+          <Text style={styles.title}>{t.dashboard}</Text>
+          <Text style={styles.subtitle}>{t.dashboardSubtitle}</Text>
+        </View>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {isLoading ? (
+        <View style={[styles.container, styles.centered]}>
+          <ActivityIndicator size="large" color={THEME.accent} />
+          <Text style={styles.loadingText}>{t.loading}</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={refetch}
+              tintColor={THEME.accent}
+            />
+          }
+        >
+          {data?.health.map(renderHealthCard)}
+
+          <Text style={styles.sectionTitle}>{t.recentFailures}</Text>
+          {data && data.failures.length > 0 ? (
+            data.failures.map(renderFailure)
+          ) : (
+            <View style={styles.emptyContainer}>
+              <Ionicons name="checkmark-done-outline" size={48} color={THEME.surfaceHighlight} />
+              <Text style={styles.emptyText}>{t.noRecentFailures}</Text>
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: THEME.background,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 40,
+    paddingHorizontal: 16,
+    paddingBottom: 20,
+    backgroundColor: THEME.background,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.surfaceHighlight,
+  },
+  headerTextContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: THEME.textPrimary,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: THEME.surfaceHighlight,
+    borderRadius: 20,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 60,
+  },
+  card: {
+    backgroundColor: THEME.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  cardOffline: {
+    borderColor: 'rgba(255, 82, 82, 0.3)',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 14,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 12,
+  },
+  cardInfo: {
+    flex: 1,
+    gap: 4,
+    marginRight: 8,
+  },
+  cardTitle: {
+    color: THEME.textPrimary,
+    fontWeight: 'bold',
+    fontSize: 15,
+  },
+  cardMeta: {
+    color: THEME.textSecondary,
+    fontSize: 11,
+    opacity: 0.8,
+  },
+  currentBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    borderWidth: 1,
+    backgroundColor: 'rgba(234, 75, 113, 0.1)',
+    borderColor: 'rgba(234, 75, 113, 0.3)',
+  },
+  currentBadgeText: {
+    color: THEME.accent,
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    backgroundColor: THEME.background,
+    borderRadius: 12,
+    paddingVertical: 10,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    color: THEME.textPrimary,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  statLabel: {
+    color: THEME.textSecondary,
+    fontSize: 11,
+    marginTop: 2,
+  },
+  offlineRow: {
+    gap: 4,
+  },
+  offlineLabel: {
+    color: THEME.error,
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  offlineText: {
+    color: THEME.textSecondary,
+    fontSize: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: THEME.textPrimary,
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  failureItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderLeftWidth: 3,
+    borderLeftColor: THEME.error,
+  },
+  failureIcon: {
+    marginRight: 12,
+  },
+  failureTitle: {
+    color: THEME.textPrimary,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  emptyContainer: {
+    padding: 30,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: THEME.textSecondary,
+    textAlign: 'center',
+    marginTop: 16,
+    fontStyle: 'italic',
+    fontSize: 14,
+  },
+  loadingText: {
+    marginTop: 16,
+    color: THEME.textSecondary,
+  },
+});
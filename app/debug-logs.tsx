@@ -0,0 +1,226 @@
+import { useLanguage } from '@/context/LanguageContext';
+import {
+  clearLogEntries,
+  getLogEntries,
+  LOG_LEVELS,
+  LogEntry,
+  LogLevel,
+  subscribeToLogs,
+} from '@/services/logger';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { useRouter } from 'expo-router';
+import { useState, useSyncExternalStore } from 'react';
+import { FlatList, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+// Spotify-inspired Theme Constants
+const THEME = {
+  background: '#121212',
+  surface: '#181818',
+  surfaceHighlight: '#282828',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#B3B3B3',
+  accent: '#EA4B71', // n8n Primary
+  success: '#22c55e',
+  error: '#FF5252',
+  warning: '#F59E0B',
+};
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: THEME.textSecondary,
+  info: THEME.success,
+  warn: THEME.warning,
+  error: THEME.error,
+};
+
+export default function DebugLogsScreen() {
+  const router = useRouter();
+  const { t } = useLanguage();
+  const [levelFilter, setLevelFilter] = useState<LogLevel | 'all'>('all');
+
+  const entries = useSyncExternalStore(subscribeToLogs, getLogEntries);
+
+  // Newest first
+  const visibleEntries = entries
+    .filter(entry => levelFilter === 'all' || entry.level === levelFilter)
+    .slice()
+    .reverse();
+
+  const renderEntry = ({ item }: { item: LogEntry }) => (
+    <View style={[styles.entry, { borderLeftColor: LEVEL_COLORS[item.level] }]}>
+      <View style={styles.entryHeader}>
+        <Text style={[styles.entryLevel, { color: LEVEL_COLORS[item.level] }]}>
+          {item.level.toUpperCase()}
+        </Text>
+        <Text style={styles.entryMeta}>
+          {item.scope} · {format(item.timestamp, 'HH:mm:ss.SSS')}
+        </Text>
+      </View>
+      <Text style={styles.entryMessage}>{item.message}</Text>
+      {item.data !== undefined && (
+        <Text style={styles.entryData}>{JSON.stringify(item.data, null, 2)}</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      {/* HEADER */}
+      <View style={styles.headerRow}>
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <Ionicons name="close" size={24} color={THEME.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerTextContainer}>
+          <Text style={styles.title}>{t.debugLogs}</Text>
+          <Text style={styles.subtitle}>{entries.length}</Text>
+        </View>
+        <TouchableOpacity style={styles.closeButton} onPress={clearLogEntries}>
+          <Ionicons name="trash-outline" size={20} color={THEME.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Level filter */}
+      <View style={styles.filterRow}>
+        {(['all', ...LOG_LEVELS] as const).map(level => (
+          <TouchableOpacity
+            key={level}
+            style={[styles.filterChip, levelFilter === level && styles.filterChipActive]}
+            onPress={() => setLevelFilter(level)}
+          >
+            <Text style={[styles.filterText, levelFilter === level && styles.filterTextActive]}>
+              {level === 'all' ? t.all : level.toUpperCase()}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <FlatList
+        data={visibleEntries}
+        renderItem={renderEntry}
+        keyExtractor={item => String(item.id)}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="document-text-outline" size={64} color={THEME.surfaceHighlight} />
+            <Text style={styles.emptyText}>{t.noLogs}</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: THEME.background,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 40,
+    paddingHorizontal: 16,
+    paddingBottom: 20,
+    backgroundColor: THEME.background,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.surfaceHighlight,
+  },
+  headerTextContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: THEME.textPrimary,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: THEME.surfaceHighlight,
+    borderRadius: 20,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  filterChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  filterChipActive: {
+    backgroundColor: THEME.surfaceHighlight,
+    borderColor: THEME.accent,
+  },
+  filterText: {
+    color: THEME.textSecondary,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  filterTextActive: {
+    color: THEME.textPrimary,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 60,
+  },
+  entry: {
+    backgroundColor: THEME.surface,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+    borderLeftWidth: 3,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  entryLevel: {
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  entryMeta: {
+    color: THEME.textSecondary,
+    fontSize: 11,
+  },
+  entryMessage: {
+    color: THEME.textPrimary,
+    fontSize: 12,
+    fontFamily: 'Courier',
+  },
+  entryData: {
+    color: THEME.textSecondary,
+    fontSize: 11,
+    fontFamily: 'Courier',
+    marginTop: 6,
+  },
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: THEME.textSecondary,
+    textAlign: 'center',
+    marginTop: 20,
+    fontStyle: 'italic',
+    fontSize: 16,
+  },
+});
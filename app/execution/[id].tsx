@@ -1,9 +1,10 @@
 import { Ionicons } from '@expo/vector-icons';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
 import {
   ActivityIndicator,
   ScrollView,
@@ -14,7 +15,19 @@ import {
   View,
 } from 'react-native';
 
-import { getExecution } from '@/services/n8n-api';
+import { ExecutionWaterfall } from '@/components/executions/ExecutionWaterfall';
+import { AlertConfig, AlertModal, AlertType, HIDDEN_ALERT } from '@/components/ui/AlertModal';
+import { useLanguage } from '@/context/LanguageContext';
+import { requireClient, useServer } from '@/context/ServerContext';
+import { describeError, formatError } from '@/services/api-errors';
+import { hasFeature } from '@/services/capabilities';
+import {
+  countOutputItems,
+  formatDuration,
+  getExecutionTimeline,
+  getNodeRuns,
+} from '@/services/execution-data';
+import { N8nExecution, N8nNodeExecutionStatus } from '@/types/n8n';
 
 // Spotify-inspired Theme Constants
 const THEME = {
@@ -28,9 +41,17 @@ const THEME = {
   error: '#FF5252',
 };
 
+// Retries are looked up among the workflow's most recent executions
+const RETRY_LOOKUP_LIMIT = 100;
+const POLL_INTERVAL = 2000;
+
 export default function ExecutionDetail() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
+  const queryClient = useQueryClient();
+  const { t } = useLanguage();
+  const { server, client, loading: serverLoading } = useServer();
+  const [alertConfig, setAlertConfig] = useState<AlertConfig>(HIDDEN_ALERT);
 
   const {
     data: execution,
@@ -38,12 +59,98 @@ export default function ExecutionDetail() {
     error,
     refetch,
   } = useQuery({
-    queryKey: ['execution', id],
-    queryFn: () => getExecution(id!),
-    enabled: !!id,
+    queryKey: [server?.id, 'execution', id],
+    queryFn: ({ signal }) => requireClient(client).getExecution(id!, { signal }),
+    enabled: !!id && !!client,
+    // Keep following the execution while it is still running
+    refetchInterval: query => (query.state.data?.status === 'running' ? POLL_INTERVAL : false),
+  });
+
+  const rootExecutionId = execution?.retryOf ?? execution?.id;
+
+  const { data: retryChain } = useQuery({
+    queryKey: [server?.id, 'executions', execution?.workflowId, 'retries', rootExecutionId],
+    queryFn: async ({ signal }) => {
+      const { data } = await requireClient(client).getExecutionsPage(
+        { workflowId: execution!.workflowId },
+        { limit: RETRY_LOOKUP_LIMIT },
+        { signal }
+      );
+      const root = data.find(e => e.id === rootExecutionId);
+      const retries = data
+        .filter(e => e.retryOf === rootExecutionId)
+        .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+
+      return { root, retries };
+    },
+    enabled: !!execution && !!client && (!!execution.retryOf || execution.status === 'error'),
   });
 
-  if (isLoading) {
+  const retryMutation = useMutation({
+    mutationFn: (loadWorkflow: boolean) =>
+      requireClient(client).retryExecution(id!, { loadWorkflow }),
+    onSuccess: newExecution => {
+      queryClient.invalidateQueries({ queryKey: [server?.id, 'executions', execution?.workflowId] });
+      queryClient.invalidateQueries({ queryKey: [server?.id, 'execution', id] });
+      router.push(`/execution/${newExecution.id}`);
+    },
+    onError: error => {
+      showErrorAlert(error);
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: () => requireClient(client).stopExecution(id!),
+    onSuccess: () => {
+      // Polling on the execution query picks up the final status
+      queryClient.invalidateQueries({ queryKey: [server?.id, 'execution', id] });
+      queryClient.invalidateQueries({ queryKey: [server?.id, 'executions', execution?.workflowId] });
+    },
+    onError: error => {
+      showErrorAlert(error);
+    },
+  });
+
+  const showAlert = (
+    title: string,
+    message: string,
+    type: AlertType = 'success',
+    onConfirm?: () => void
+  ) => {
+    setAlertConfig({ visible: true, title, message, type, onConfirm });
+  };
+
+  const showErrorAlert = (error: unknown) => {
+    const { recovery, recoveryLabel } = describeError(error, t);
+    setAlertConfig({
+      visible: true,
+      title: t.error,
+      message: formatError(error, t),
+      type: 'error',
+      recoveryLabel: recovery && recovery !== 'retry' ? recoveryLabel : undefined,
+      onRecovery: openServerSettings,
+    });
+  };
+
+  const openServerSettings = () => {
+    router.push(
+      server ? { pathname: '/setup', params: { action: 'edit', serverId: server.id } } : '/setup'
+    );
+  };
+
+  const hideAlert = () => {
+    setAlertConfig(prev => ({ ...prev, visible: false }));
+  };
+
+  const handleStop = () => {
+    showAlert(t.stopExecution, t.stopConfirm, 'confirm', () => stopMutation.mutate());
+  };
+
+  const handleRetry = (loadWorkflow: boolean) => {
+    showAlert(t.retryExecution, t.retryConfirm, 'confirm', () => retryMutation.mutate(loadWorkflow));
+  };
+
+  if (isLoading || serverLoading) {
     return (
       <View style={styles.centered}>
         <ActivityIndicator size="large" color={THEME.accent} />
@@ -53,16 +160,23 @@ export default function ExecutionDetail() {
   }
 
   if (error || !execution) {
+    const loadError = error ? describeError(error, t) : undefined;
+
     return (
       <View style={styles.centered}>
         <Ionicons name="alert-circle-outline" size={64} color={THEME.error} />
         <Text style={styles.errorTitle}>Error al cargar</Text>
         <Text style={styles.errorText}>
-          {error instanceof Error ? error.message : 'No se pudo cargar la ejecución'}
+          {error ? formatError(error, t) : 'No se pudo cargar la ejecución'}
         </Text>
         <TouchableOpacity style={styles.retryButton} onPress={() => refetch()}>
           <Text style={styles.retryButtonText}>Reintentar</Text>
         </TouchableOpacity>
+        {loadError?.recovery && loadError.recovery !== 'retry' && (
+          <TouchableOpacity style={styles.recoveryLink} onPress={openServerSettings}>
+            <Text style={styles.recoveryLinkText}>{loadError.recoveryLabel}</Text>
+          </TouchableOpacity>
+        )}
       </View>
     );
   }
@@ -96,6 +210,45 @@ export default function ExecutionDetail() {
     }
   };
 
+  // Retrying needs a server with the retry endpoint
+  const canRetry = hasError && !execution.retrySuccessId && hasFeature(server, 'executionRetry');
+  const timeline = getExecutionTimeline(execution);
+  const lastNodeExecuted = execution.data?.resultData?.lastNodeExecuted;
+  const showDetachedErrorNode =
+    hasError && !!errorInfo?.node && !timeline.some(e => e.nodeName === errorInfo.node!.name);
+
+  const getNodeStatusColor = (status: N8nNodeExecutionStatus) => {
+    switch (status) {
+      case 'success':
+        return THEME.success;
+      case 'error':
+      case 'crashed':
+        return THEME.error;
+      case 'running':
+      case 'waiting':
+        return '#f59e0b';
+      default:
+        return THEME.textSecondary;
+    }
+  };
+  const isRunning = execution.status === 'running';
+
+  // Original execution first, then its retries in the order they ran
+  const chainEntries: { id: string; execution?: N8nExecution; isRoot: boolean }[] =
+    retryChain && (retryChain.retries.length > 0 || execution.retryOf)
+      ? [
+          { id: rootExecutionId!, execution: retryChain.root, isRoot: true },
+          ...retryChain.retries.map(retry => ({ id: retry.id, execution: retry, isRoot: false })),
+        ]
+      : [];
+  const retrySuccessId = retryChain?.root?.retrySuccessId ?? execution.retrySuccessId;
+
+  const getChainColor = (entry: (typeof chainEntries)[number]) => {
+    if (entry.id === retrySuccessId || entry.execution?.status === 'success') return THEME.success;
+    if (entry.execution?.status === 'error') return THEME.error;
+    return THEME.textSecondary;
+  };
+
   return (
     <View style={styles.container}>
       <StatusBar barStyle="light-content" />
@@ -195,43 +348,196 @@ export default function ExecutionDetail() {
           </View>
         )}
 
+        {/* Stop Section */}
+        {isRunning && hasFeature(server, 'executionStop') && (
+          <View style={styles.cardContainer}>
+            <TouchableOpacity
+              style={[styles.retryActionButton, styles.stopActionButton]}
+              onPress={handleStop}
+              disabled={stopMutation.isPending}
+            >
+              {stopMutation.isPending ? (
+                <ActivityIndicator color="#FFF" size="small" />
+              ) : (
+                <>
+                  <Ionicons name="stop-circle" size={18} color="#FFF" />
+                  <Text style={styles.retryActionText}>{t.stopExecution}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Retry Section */}
+        {canRetry && (
+          <View style={styles.cardContainer}>
+            <Text style={styles.sectionHeader}>{t.retryExecution.toUpperCase()}</Text>
+            <View style={styles.retryActions}>
+              <TouchableOpacity
+                style={[styles.retryActionButton, styles.retryActionPrimary]}
+                onPress={() => handleRetry(true)}
+                disabled={retryMutation.isPending}
+              >
+                {retryMutation.isPending && retryMutation.variables === true ? (
+                  <ActivityIndicator color="#FFF" size="small" />
+                ) : (
+                  <>
+                    <Ionicons name="refresh" size={18} color="#FFF" />
+                    <Text style={styles.retryActionText}>{t.retryWithCurrent}</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.retryActionButton}
+                onPress={() => handleRetry(false)}
+                disabled={retryMutation.isPending}
+              >
+                {retryMutation.isPending && retryMutation.variables === false ? (
+                  <ActivityIndicator color={THEME.textPrimary} size="small" />
+                ) : (
+                  <>
+                    <Ionicons name="time-outline" size={18} color={THEME.textPrimary} />
+                    <Text style={styles.retryActionText}>{t.retryWithOriginal}</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Retry Chain Section */}
+        {chainEntries.length > 0 && (
+          <View style={styles.cardContainer}>
+            <Text style={styles.sectionHeader}>{t.retryChain}</Text>
+            {chainEntries.map((entry, index) => {
+              const isCurrent = entry.id === execution.id;
+              const isLast = index === chainEntries.length - 1;
+
+              return (
+                <TouchableOpacity
+                  key={entry.id}
+                  style={styles.flowItem}
+                  onPress={() => router.push(`/execution/${entry.id}`)}
+                  disabled={isCurrent}
+                  activeOpacity={0.6}
+                >
+                  <View style={styles.timelineContainer}>
+                    <View style={[styles.timelineDot, { backgroundColor: getChainColor(entry) }]} />
+                    {!isLast && <View style={styles.timelineLine} />}
+                  </View>
+                  <View style={styles.chainContent}>
+                    <Text style={[styles.flowNodeName, isCurrent && { color: THEME.accent }]}>
+                      {entry.isRoot ? t.retryOriginal : `${t.retryAttempt} ${index}`} #{entry.id}
+                    </Text>
+                    {entry.execution && (
+                      <Text style={styles.flowMeta}>
+                        {format(new Date(entry.execution.startedAt), 'd MMM, HH:mm:ss', {
+                          locale: es,
+                        })}
+                      </Text>
+                    )}
+                  </View>
+                  {entry.id === retrySuccessId && (
+                    <Ionicons name="checkmark-circle" size={18} color={THEME.success} />
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
         {/* Flow Section */}
         <View style={styles.cardContainer}>
           <Text style={styles.sectionHeader}>FLUJO</Text>
 
-          {execution.data?.resultData?.runData &&
-            Object.entries(execution.data.resultData.runData).map(([nodeName, nodeData], index) => (
-              <View key={nodeName} style={styles.flowItem}>
+          <TouchableOpacity
+            style={[styles.retryActionButton, styles.graphButton]}
+            onPress={() => router.push(`/execution/${id}/graph`)}
+          >
+            <Ionicons name="git-network-outline" size={18} color={THEME.textPrimary} />
+            <Text style={styles.retryActionText}>{t.executionGraph}</Text>
+          </TouchableOpacity>
+
+          {timeline.map((entry, index) => {
+            const isLast = index === timeline.length - 1 && !showDetachedErrorNode;
+            const color = getNodeStatusColor(entry.status);
+            const runCount = getNodeRuns(execution, entry.nodeName).length;
+            // Only the final run of the last node, earlier runs of a loop aren't where it stopped
+            const isLastExecuted =
+              entry.nodeName === lastNodeExecuted && entry.runIndex === runCount - 1;
+
+            return (
+              <TouchableOpacity
+                key={`${entry.nodeName}-${entry.runIndex}`}
+                style={[styles.flowItem, isLastExecuted && styles.flowItemHighlight]}
+                onPress={() =>
+                  router.push(
+                    `/execution/${execution.id}/node/${encodeURIComponent(entry.nodeName)}?run=${entry.runIndex}`
+                  )
+                }
+                activeOpacity={0.6}
+              >
                 <View style={styles.timelineContainer}>
-                  <View style={[styles.timelineDot, { backgroundColor: THEME.success }]} />
-                  <View style={styles.timelineLine} />
+                  <View style={[styles.timelineDot, { backgroundColor: color }]} />
+                  {!isLast && <View style={styles.timelineLine} />}
                 </View>
                 <View style={styles.flowContent}>
-                  <Text style={styles.flowNodeName}>{nodeName}</Text>
-                  <Text style={styles.flowMeta}>Procesado correctamente</Text>
+                  <Text
+                    style={[styles.flowNodeName, entry.status === 'error' && { color: THEME.error }]}
+                  >
+                    {entry.nodeName}
+                    {runCount > 1 ? ` (${t.run} ${entry.runIndex + 1})` : ''}
+                  </Text>
+                  <Text style={styles.flowMeta}>
+                    <Text style={{ color }}>{entry.status}</Text>
+                    {' • '}
+                    {formatDuration(entry.run.executionTime)} • {countOutputItems(entry.run)}{' '}
+                    {t.items}
+                  </Text>
+                  {entry.run.error?.message && (
+                    <Text style={styles.flowError} numberOfLines={2}>
+                      {entry.run.error.message}
+                    </Text>
+                  )}
                 </View>
-              </View>
-            ))}
+                {isLastExecuted && (
+                  <Ionicons name="flag" size={16} color={THEME.accent} style={styles.flowFlag} />
+                )}
+                <Ionicons name="chevron-forward" size={18} color={THEME.textSecondary} />
+              </TouchableOpacity>
+            );
+          })}
 
-          {hasError && errorInfo?.node && (
+          {/* Error raised by a node that left no run data */}
+          {showDetachedErrorNode && (
             <View style={styles.flowItem}>
               <View style={styles.timelineContainer}>
                 <View style={[styles.timelineDot, { backgroundColor: THEME.error }]} />
               </View>
               <View style={styles.flowContent}>
                 <Text style={[styles.flowNodeName, { color: THEME.error }]}>
-                  {errorInfo.node.name}
+                  {errorInfo!.node!.name}
                 </Text>
                 <Text style={styles.flowMeta}>Fallo en la ejecución</Text>
               </View>
             </View>
           )}
 
-          {!execution.data?.resultData?.runData && !hasError && (
+          {timeline.length === 0 && !hasError && (
             <Text style={styles.emptyText}>No hay datos de flujo disponibles.</Text>
           )}
         </View>
+
+        {/* Timing Section */}
+        {timeline.length > 0 && (
+          <View style={styles.cardContainer}>
+            <Text style={styles.sectionHeader}>{t.timing}</Text>
+            <ExecutionWaterfall execution={execution} />
+          </View>
+        )}
       </ScrollView>
+
+      <AlertModal config={alertConfig} onClose={hideAlert} />
     </View>
   );
 }
@@ -384,6 +690,18 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 16,
   },
+  flowItemHighlight: {
+    backgroundColor: 'rgba(234, 75, 113, 0.08)',
+    borderRadius: 8,
+  },
+  flowError: {
+    color: THEME.error,
+    fontSize: 12,
+    marginTop: 4,
+  },
+  flowFlag: {
+    marginRight: 6,
+  },
   flowMeta: {
     color: THEME.textSecondary,
     fontSize: 12,
@@ -419,4 +737,47 @@ const styles = StyleSheet.create({
     color: THEME.textPrimary,
     fontWeight: '600',
   },
+  recoveryLink: {
+    padding: 8,
+    marginTop: 8,
+  },
+  recoveryLinkText: {
+    color: THEME.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  retryActions: {
+    gap: 12,
+  },
+  retryActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 24,
+    minHeight: 46,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  retryActionPrimary: {
+    backgroundColor: THEME.accent,
+    borderColor: THEME.accent,
+  },
+  retryActionText: {
+    color: THEME.textPrimary,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  graphButton: {
+    marginBottom: 20,
+  },
+  stopActionButton: {
+    backgroundColor: THEME.error,
+    borderColor: THEME.error,
+  },
+  chainContent: {
+    flex: 1,
+    paddingBottom: 16,
+  },
 });
@@ -0,0 +1,266 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useWindowDimensions,
+  View,
+} from 'react-native';
+
+import { WorkflowGraph } from '@/components/workflows/WorkflowGraph';
+import { useLanguage } from '@/context/LanguageContext';
+import { requireClient, useServer } from '@/context/ServerContext';
+import { formatError } from '@/services/api-errors';
+import { getGraphOverlay } from '@/services/execution-data';
+
+// Spotify-inspired Theme Constants
+const THEME = {
+  background: '#121212',
+  surface: '#181818',
+  surfaceHighlight: '#282828',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#B3B3B3',
+  accent: '#EA4B71', // n8n Primary
+  success: '#22c55e', // Green for success
+  error: '#FF5252',
+};
+
+// Room left for the header and legend below the canvas
+const CHROME_HEIGHT = 260;
+const MIN_GRAPH_HEIGHT = 320;
+
+export default function ExecutionGraph() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { t } = useLanguage();
+  const { server, client, loading: serverLoading } = useServer();
+  const { height: windowHeight } = useWindowDimensions();
+
+  // Shares the cache entry with the execution detail screen
+  const {
+    data: execution,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: [server?.id, 'execution', id],
+    queryFn: ({ signal }) => requireClient(client).getExecution(id!, { signal }),
+    enabled: !!id && !!client,
+  });
+
+  // Older servers don't include the workflow snapshot, fall back to the current version
+  const hasSnapshot = !!execution?.workflowData?.nodes?.length;
+  const { data: workflow, isLoading: isLoadingWorkflow } = useQuery({
+    queryKey: [server?.id, 'workflow', execution?.workflowId],
+    queryFn: ({ signal }) => requireClient(client).getWorkflow(execution!.workflowId, { signal }),
+    enabled: !!execution && !!client && !hasSnapshot,
+  });
+
+  if (isLoading || serverLoading || (!hasSnapshot && isLoadingWorkflow)) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={THEME.accent} />
+        <Text style={styles.loadingText}>{t.loading}</Text>
+      </View>
+    );
+  }
+
+  if (error || !execution) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="alert-circle-outline" size={64} color={THEME.error} />
+        <Text style={styles.errorText}>
+          {error ? formatError(error, t) : t.noNodeData}
+        </Text>
+        <TouchableOpacity style={styles.retryButton} onPress={() => refetch()}>
+          <Text style={styles.retryButtonText}>{t.retry}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const nodes = hasSnapshot ? execution.workflowData!.nodes! : (workflow?.nodes ?? []);
+  const connections = hasSnapshot ? execution.workflowData!.connections : workflow?.connections;
+  const overlay = getGraphOverlay(execution);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={THEME.textPrimary} />
+          <Text style={styles.backButtonText}>{t.back}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={2}>
+          {execution.workflowData?.name || t.executionGraph}
+        </Text>
+        <Text style={styles.subtitle}>#{execution.id}</Text>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={{ paddingBottom: 40 }}>
+        {nodes.length === 0 ? (
+          <Text style={styles.emptyText}>{t.noNodeData}</Text>
+        ) : (
+          <>
+            <WorkflowGraph
+              nodes={nodes}
+              connections={connections}
+              overlay={overlay}
+              height={Math.max(windowHeight - CHROME_HEIGHT, MIN_GRAPH_HEIGHT)}
+            />
+            <Text style={styles.hint}>{t.graphHint}</Text>
+          </>
+        )}
+
+        {/* Legend */}
+        <View style={styles.legend}>
+          <View style={styles.legendRow}>
+            <View style={[styles.legendNode, { borderColor: THEME.success }]} />
+            <Text style={styles.legendText}>{t.executed}</Text>
+          </View>
+          <View style={styles.legendRow}>
+            <View style={[styles.legendNode, styles.legendNodeDimmed]} />
+            <Text style={styles.legendText}>{t.notExecuted}</Text>
+          </View>
+          <View style={styles.legendRow}>
+            <Ionicons name="alert-circle" size={16} color={THEME.error} />
+            <Text style={styles.legendText}>{t.failedNode}</Text>
+          </View>
+          <View style={styles.legendRow}>
+            <View style={styles.legendEdgeLabel}>
+              <Text style={styles.legendEdgeLabelText}>12</Text>
+            </View>
+            <Text style={styles.legendText}>{t.itemsOnEdge}</Text>
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: THEME.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: THEME.background,
+    padding: 24,
+  },
+  header: {
+    paddingTop: 40,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButtonText: {
+    color: THEME.textPrimary,
+    fontSize: 16,
+    marginLeft: 8,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: THEME.textPrimary,
+    marginTop: 16,
+  },
+  subtitle: {
+    color: THEME.textSecondary,
+    fontSize: 13,
+    marginTop: 4,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  hint: {
+    color: THEME.textSecondary,
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  legend: {
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 12,
+  },
+  legendRow: {
+    width: '50%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  legendNode: {
+    width: 20,
+    height: 14,
+    borderRadius: 4,
+    borderWidth: 2,
+    backgroundColor: THEME.surfaceHighlight,
+  },
+  legendNodeDimmed: {
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    opacity: 0.35,
+  },
+  legendEdgeLabel: {
+    width: 24,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(34, 197, 94, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  legendEdgeLabelText: {
+    color: THEME.textPrimary,
+    fontSize: 9,
+    fontWeight: '600',
+  },
+  legendText: {
+    color: THEME.textSecondary,
+    fontSize: 12,
+  },
+  emptyText: {
+    color: THEME.textSecondary,
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  loadingText: {
+    color: THEME.textSecondary,
+    marginTop: 16,
+  },
+  errorText: {
+    color: THEME.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 20,
+  },
+  retryButton: {
+    backgroundColor: THEME.surfaceHighlight,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  retryButtonText: {
+    color: THEME.textPrimary,
+    fontWeight: '600',
+  },
+});
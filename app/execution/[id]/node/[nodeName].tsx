@@ -0,0 +1,482 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { JsonTree, jsonMatchesSearch } from '@/components/ui/JsonTree';
+import { useLanguage } from '@/context/LanguageContext';
+import { requireClient, useServer } from '@/context/ServerContext';
+import { formatError } from '@/services/api-errors';
+import {
+  countOutputItems,
+  formatDuration,
+  getNodeRuns,
+  getRunInputItems,
+  getRunOutputs,
+  getRunStatus,
+} from '@/services/execution-data';
+
+// Spotify-inspired Theme Constants
+const THEME = {
+  background: '#121212',
+  surface: '#181818',
+  surfaceHighlight: '#282828',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#B3B3B3',
+  accent: '#EA4B71', // n8n Primary
+  success: '#22c55e', // Green for success
+  error: '#FF5252',
+};
+
+// Items rendered per "show more" step, large outputs get expensive to lay out
+const ITEMS_STEP = 20;
+
+export default function NodeData() {
+  const { id, nodeName, run: initialRun } = useLocalSearchParams<{
+    id: string;
+    nodeName: string;
+    run?: string;
+  }>();
+  const router = useRouter();
+  const { t } = useLanguage();
+  const { server, client, loading: serverLoading } = useServer();
+  const [runIndex, setRunIndex] = useState(Number(initialRun) || 0);
+  const [tab, setTab] = useState<'input' | 'output'>('output');
+  const [outputIndex, setOutputIndex] = useState(0);
+  const [search, setSearch] = useState('');
+  const [visibleCount, setVisibleCount] = useState(ITEMS_STEP);
+
+  // Shares the cache entry with the execution detail screen
+  const {
+    data: execution,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: [server?.id, 'execution', id],
+    queryFn: ({ signal }) => requireClient(client).getExecution(id!, { signal }),
+    enabled: !!id && !!client,
+  });
+
+  if (isLoading || serverLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={THEME.accent} />
+        <Text style={styles.loadingText}>{t.loading}</Text>
+      </View>
+    );
+  }
+
+  if (error || !execution) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="alert-circle-outline" size={64} color={THEME.error} />
+        <Text style={styles.errorText}>
+          {error ? formatError(error, t) : t.noNodeData}
+        </Text>
+        <TouchableOpacity style={styles.retryButton} onPress={() => refetch()}>
+          <Text style={styles.retryButtonText}>{t.retry}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const runs = getNodeRuns(execution, nodeName!);
+  const run = runs[runIndex];
+  const outputs = getRunOutputs(run);
+  const inputItems = getRunInputItems(execution, run);
+  const items = tab === 'input' ? inputItems : (outputs[outputIndex] ?? []);
+  const matchingItems = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => jsonMatchesSearch(item.json, search));
+
+  const selectRun = (index: number) => {
+    setRunIndex(index);
+    setOutputIndex(0);
+    setVisibleCount(ITEMS_STEP);
+  };
+
+  const selectTab = (next: 'input' | 'output') => {
+    setTab(next);
+    setVisibleCount(ITEMS_STEP);
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={THEME.textPrimary} />
+          <Text style={styles.backButtonText}>{t.back}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={2}>
+          {nodeName}
+        </Text>
+      </View>
+
+      {!run ? (
+        <Text style={styles.emptyText}>{t.noNodeData}</Text>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={{ paddingBottom: 40 }}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Run Selector */}
+          {runs.length > 1 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.runScroller}>
+              {runs.map((_, index) => (
+                <TouchableOpacity
+                  key={index}
+                  style={[styles.pill, runIndex === index && styles.pillActive]}
+                  onPress={() => selectRun(index)}
+                >
+                  <Text style={[styles.pillText, runIndex === index && styles.pillTextActive]}>
+                    {t.run} {index + 1}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          {/* Run Info */}
+          <View style={styles.cardContainer}>
+            <Text style={styles.sectionHeader}>{t.nodeData}</Text>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>{t.status}</Text>
+              <Text
+                style={[
+                  styles.infoValue,
+                  { color: run.error ? THEME.error : THEME.success },
+                ]}
+              >
+                {getRunStatus(run)}
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>{t.startTime}</Text>
+              <Text style={styles.infoValue}>
+                {format(new Date(run.startTime), 'd MMM, HH:mm:ss.SSS', { locale: es })}
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>{t.executionTime}</Text>
+              <Text style={styles.infoValue}>{formatDuration(run.executionTime)}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>{t.input}</Text>
+              <Text style={styles.infoValue}>
+                {inputItems.length} {t.items}
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>{t.output}</Text>
+              <Text style={styles.infoValue}>
+                {countOutputItems(run)} {t.items}
+              </Text>
+            </View>
+          </View>
+
+          {/* Run Error */}
+          {run.error && (
+            <View style={[styles.cardContainer, styles.errorCard]}>
+              <Text style={[styles.sectionHeader, { color: THEME.error }]}>ERROR</Text>
+              <Text style={styles.errorMessage}>{run.error.message}</Text>
+              {run.error.description && (
+                <Text style={styles.errorDescription}>{run.error.description}</Text>
+              )}
+            </View>
+          )}
+
+          {/* Input / Output Tabs */}
+          <View style={styles.tabRow}>
+            {(['input', 'output'] as const).map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.tab, tab === value && styles.tabActive]}
+                onPress={() => selectTab(value)}
+              >
+                <Text style={[styles.tabText, tab === value && styles.tabTextActive]}>
+                  {value === 'input' ? t.input : t.output} (
+                  {value === 'input' ? inputItems.length : countOutputItems(run)})
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Output Selector (e.g. IF true/false branches) */}
+          {tab === 'output' && outputs.length > 1 && (
+            <View style={styles.pillRow}>
+              {outputs.map((outputItems, index) => (
+                <TouchableOpacity
+                  key={index}
+                  style={[styles.pill, outputIndex === index && styles.pillActive]}
+                  onPress={() => {
+                    setOutputIndex(index);
+                    setVisibleCount(ITEMS_STEP);
+                  }}
+                >
+                  <Text style={[styles.pillText, outputIndex === index && styles.pillTextActive]}>
+                    {t.output} {index + 1} ({outputItems.length})
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {/* Search */}
+          <View style={styles.searchBar}>
+            <Ionicons name="search" size={18} color={THEME.textSecondary} style={styles.searchIcon} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder={t.searchData}
+              placeholderTextColor={THEME.textSecondary}
+              value={search}
+              onChangeText={setSearch}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {search.length > 0 && (
+              <TouchableOpacity onPress={() => setSearch('')}>
+                <Ionicons name="close-circle" size={18} color={THEME.textSecondary} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {/* Items */}
+          {matchingItems.length === 0 ? (
+            <Text style={styles.emptyText}>{t.noItems}</Text>
+          ) : (
+            matchingItems.slice(0, visibleCount).map(({ item, index }) => (
+              <View key={index} style={styles.itemCard}>
+                <JsonTree data={item.json} label={`[${index}]`} search={search} />
+              </View>
+            ))
+          )}
+
+          {matchingItems.length > visibleCount && (
+            <TouchableOpacity
+              style={styles.showMoreButton}
+              onPress={() => setVisibleCount(count => count + ITEMS_STEP)}
+            >
+              <Text style={styles.showMoreText}>
+                {t.showMore} ({matchingItems.length - visibleCount})
+              </Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: THEME.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: THEME.background,
+    padding: 24,
+  },
+  header: {
+    paddingTop: 40,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButtonText: {
+    color: THEME.textPrimary,
+    fontSize: 16,
+    marginLeft: 8,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: THEME.textPrimary,
+    marginTop: 16,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  cardContainer: {
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  errorCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: THEME.error,
+  },
+  sectionHeader: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: THEME.textSecondary,
+    marginBottom: 16,
+    letterSpacing: 1,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+    paddingBottom: 4,
+  },
+  infoLabel: {
+    color: THEME.textSecondary,
+    fontSize: 14,
+  },
+  infoValue: {
+    color: THEME.textPrimary,
+    fontSize: 14,
+    fontWeight: '500',
+    maxWidth: '60%',
+    textAlign: 'right',
+  },
+  errorMessage: {
+    color: THEME.error,
+    fontWeight: '500',
+  },
+  errorDescription: {
+    color: THEME.textSecondary,
+    fontSize: 13,
+    marginTop: 8,
+  },
+  runScroller: {
+    marginBottom: 16,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 8,
+    marginBottom: 16,
+  },
+  pill: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    marginRight: 8,
+  },
+  pillActive: {
+    backgroundColor: THEME.textPrimary,
+    borderColor: THEME.textPrimary,
+  },
+  pillText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textSecondary,
+  },
+  pillTextActive: {
+    color: '#000',
+  },
+  tabRow: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 10,
+    padding: 2,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  tabActive: {
+    backgroundColor: THEME.surfaceHighlight,
+  },
+  tabText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.textSecondary,
+  },
+  tabTextActive: {
+    color: THEME.textPrimary,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    height: 44,
+    marginBottom: 16,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    color: THEME.textPrimary,
+    fontSize: 14,
+    height: '100%',
+  },
+  itemCard: {
+    backgroundColor: THEME.surface,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  showMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  showMoreText: {
+    color: THEME.accent,
+    fontWeight: '600',
+  },
+  emptyText: {
+    color: THEME.textSecondary,
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  loadingText: {
+    color: THEME.textSecondary,
+    marginTop: 16,
+  },
+  errorText: {
+    color: THEME.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 20,
+  },
+  retryButton: {
+    backgroundColor: THEME.surfaceHighlight,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  retryButtonText: {
+    color: THEME.textPrimary,
+    fontWeight: '600',
+  },
+});
@@ -1,5 +1,5 @@
 import { Ionicons } from '@expo/vector-icons';
-import { useQuery } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import { formatDistanceToNow } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { BlurView } from 'expo-blur';
@@ -20,7 +20,10 @@ import {
 } from 'react-native';
 import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
 
-import { getWorkflows } from '@/services/n8n-api';
+import { useLanguage } from '@/context/LanguageContext';
+import { requireClient, useServer } from '@/context/ServerContext';
+import { describeError, formatError } from '@/services/api-errors';
+import { findOverdueWorkflows, getRecentRuns, getWorkflowSchedules } from '@/services/schedule';
 import { hasN8nConfig, isOnboardingCompleted } from '@/services/storage';
 import { N8nWorkflow } from '@/types/n8n';
 
@@ -36,25 +39,53 @@ const THEME = {
   error: '#FF5252',
 };
 
+const WORKFLOWS_PAGE_SIZE = 50;
+
 export default function Index() {
   const router = useRouter();
+  const { t } = useLanguage();
+  const { server, client, loading: serverLoading } = useServer();
   const [checking, setChecking] = useState(true);
 
   const [filter, setFilter] = useState<'all' | 'active' | 'inactive'>('all');
   const [searchQuery, setSearchQuery] = useState('');
 
   const {
-    data: workflows,
+    data,
     isLoading,
     isError,
     error,
     refetch,
     isRefetching,
-  } = useQuery({
-    queryKey: ['workflows'],
-    queryFn: getWorkflows,
-    enabled: !checking,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [server?.id, 'workflows'],
+    queryFn: ({ pageParam, signal }) =>
+      requireClient(client).getWorkflowsPage(
+        { limit: WORKFLOWS_PAGE_SIZE, cursor: pageParam },
+        { signal }
+      ),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    enabled: !checking && !!client,
+  });
+
+  const workflows = data?.pages.flatMap(page => page.data);
+
+  // Recent runs of all workflows in one request, for the overdue badge
+  const scheduledWorkflows = (workflows ?? []).filter(
+    workflow => workflow.active && getWorkflowSchedules(workflow).length > 0
+  );
+  const { data: recentRuns } = useQuery({
+    queryKey: [server?.id, 'executions', 'recentRuns'],
+    queryFn: ({ signal }) => getRecentRuns(requireClient(client), { signal }),
+    enabled: !!client && scheduledWorkflows.length > 0,
   });
+  const overdueIds = recentRuns
+    ? findOverdueWorkflows(scheduledWorkflows, recentRuns)
+    : new Set<string>();
 
   useEffect(() => {
     checkConfig();
@@ -110,7 +141,7 @@ export default function Index() {
     return true;
   });
 
-  if (checking || isLoading) {
+  if (checking || serverLoading || isLoading) {
     return (
       <View style={styles.centerContainer}>
         <StatusBar barStyle="light-content" />
@@ -121,19 +152,30 @@ export default function Index() {
   }
 
   if (isError) {
+    const { recovery, recoveryLabel } = describeError(error, t);
+    // Retrying is already the main button, the link points at whatever needs fixing
+    const settingsLabel = recovery && recovery !== 'retry' ? recoveryLabel : 'Revisar configuración';
+
     return (
       <View style={styles.centerContainer}>
         <StatusBar barStyle="light-content" />
         <Ionicons name="alert-circle-outline" size={64} color={THEME.error} />
         <Text style={styles.errorTitle}>Algo salió mal</Text>
-        <Text style={styles.errorText}>
-          {error instanceof Error ? error.message : 'Error de conexión'}
-        </Text>
+        <Text style={styles.errorText}>{formatError(error, t)}</Text>
         <TouchableOpacity style={styles.retryButton} onPress={() => refetch()}>
           <Text style={styles.retryButtonText}>Reintentar</Text>
         </TouchableOpacity>
-        <TouchableOpacity style={styles.settingsLink} onPress={() => router.push('/setup')}>
-          <Text style={styles.settingsLinkText}>Revisar configuración</Text>
+        <TouchableOpacity
+          style={styles.settingsLink}
+          onPress={() =>
+            router.push(
+              server
+                ? { pathname: '/setup', params: { action: 'edit', serverId: server.id } }
+                : '/setup'
+            )
+          }
+        >
+          <Text style={styles.settingsLinkText}>{settingsLabel}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -142,6 +184,14 @@ export default function Index() {
   const activeCount = workflows?.filter(w => w.active).length || 0;
   const inactiveCount = workflows?.filter(w => !w.active).length || 0;
   const totalCount = workflows?.length || 0;
+  // More pages on the server: counts only cover what has been loaded so far
+  const countSuffix = hasNextPage ? '+' : '';
+
+  const loadMore = () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
 
   const renderWorkflow = ({ item, index }: { item: N8nWorkflow; index: number }) => {
     const lastUpdate = formatDistanceToNow(new Date(item.updatedAt), {
@@ -149,8 +199,9 @@ export default function Index() {
       locale: es,
     });
 
+    // Cap the stagger so items from later pages don't wait seconds to appear
     return (
-      <Animated.View entering={FadeInDown.delay(index * 100).springify()}>
+      <Animated.View entering={FadeInDown.delay(Math.min(index, 10) * 100).springify()}>
         <TouchableOpacity
           style={styles.workflowCard}
           onPress={() => router.push(`/workflow/${item.id}`)}
@@ -186,6 +237,12 @@ export default function Index() {
                     {item.active ? 'ACTIVO' : 'INACTIVO'}
                   </Text>
                 </View>
+                {overdueIds.has(item.id) && (
+                  <View style={[styles.statusBadge, styles.badgeOverdue]}>
+                    <Ionicons name="alarm-outline" size={10} color={THEME.error} />
+                    <Text style={[styles.badgeText, { color: THEME.error }]}>{t.overdue}</Text>
+                  </View>
+                )}
                 <Text style={styles.workflowMeta}>{lastUpdate}</Text>
               </View>
             </View>
@@ -234,15 +291,24 @@ export default function Index() {
       {/* Stats Dashboard */}
       <Animated.View entering={FadeInDown.delay(100).springify()} style={styles.statsRow}>
         <View style={styles.statCard}>
-          <Text style={styles.statNumber}>{totalCount}</Text>
+          <Text style={styles.statNumber}>
+            {totalCount}
+            {countSuffix}
+          </Text>
           <Text style={styles.statLabel}>Total</Text>
         </View>
         <View style={styles.statCard}>
-          <Text style={[styles.statNumber, { color: THEME.success }]}>{activeCount}</Text>
+          <Text style={[styles.statNumber, { color: THEME.success }]}>
+            {activeCount}
+            {countSuffix}
+          </Text>
           <Text style={styles.statLabel}>Activos</Text>
         </View>
         <View style={styles.statCard}>
-          <Text style={[styles.statNumber, { color: THEME.textSecondary }]}>{inactiveCount}</Text>
+          <Text style={[styles.statNumber, { color: THEME.textSecondary }]}>
+            {inactiveCount}
+            {countSuffix}
+          </Text>
           <Text style={styles.statLabel}>Inactivos</Text>
         </View>
       </Animated.View>
@@ -302,6 +368,13 @@ export default function Index() {
         keyExtractor={item => item.id}
         contentContainerStyle={styles.listContent}
         keyboardShouldPersistTaps="handled"
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isFetchingNextPage ? (
+            <ActivityIndicator size="small" color={THEME.accent} style={styles.listFooter} />
+          ) : null
+        }
         refreshControl={
           <RefreshControl
             refreshing={isRefetching}
@@ -369,6 +442,30 @@ export default function Index() {
           </Animated.View>
 
           <Animated.View entering={FadeInUp.delay(800)}>
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/dashboard')}
+              activeOpacity={0.7}
+            >
+              <View style={styles.menuIconContainer}>
+                <Ionicons name="grid-outline" size={22} color={THEME.textSecondary} />
+              </View>
+            </TouchableOpacity>
+          </Animated.View>
+
+          <Animated.View entering={FadeInUp.delay(900)}>
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => router.push('/alerts')}
+              activeOpacity={0.7}
+            >
+              <View style={styles.menuIconContainer}>
+                <Ionicons name="notifications-outline" size={22} color={THEME.textSecondary} />
+              </View>
+            </TouchableOpacity>
+          </Animated.View>
+
+          <Animated.View entering={FadeInUp.delay(1000)}>
             <TouchableOpacity
               style={styles.menuItem}
               onPress={() => router.push('/setup')}
@@ -580,6 +677,13 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(255, 255, 255, 0.05)',
     borderColor: 'rgba(255, 255, 255, 0.1)',
   },
+  badgeOverdue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+    borderColor: 'rgba(239, 68, 68, 0.3)',
+  },
   badgeText: {
     fontSize: 10,
     fontWeight: 'bold',
@@ -653,6 +757,9 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  listFooter: {
+    paddingVertical: 16,
+  },
   emptyContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -685,8 +792,8 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(30, 30, 30, 0.4)', // Reduced opacity for stronger blur effect
     borderRadius: 40,
     paddingVertical: 8,
-    paddingHorizontal: 32,
-    gap: 24,
+    paddingHorizontal: 24,
+    gap: 16,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 10 },
     shadowOpacity: 0.5,
@@ -0,0 +1,276 @@
+import { useLanguage } from '@/context/LanguageContext';
+import { isLoggingEnabled } from '@/services/logger';
+import {
+  clearNetworkEntries,
+  getNetworkEntries,
+  NetworkEntry,
+  subscribeToNetworkLog,
+  toCurl,
+} from '@/services/network-log';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import * as Clipboard from 'expo-clipboard';
+import { useRouter } from 'expo-router';
+import { useState, useSyncExternalStore } from 'react';
+import { FlatList, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+// Spotify-inspired Theme Constants
+const THEME = {
+  background: '#121212',
+  surface: '#181818',
+  surfaceHighlight: '#282828',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#B3B3B3',
+  accent: '#EA4B71', // n8n Primary
+  success: '#22c55e',
+  error: '#FF5252',
+  warning: '#F59E0B',
+};
+
+// How long the "copied" confirmation stays on the button
+const COPIED_FEEDBACK_MS = 1500;
+
+const getStatusColor = (entry: NetworkEntry) => {
+  if (entry.error || (entry.status !== undefined && entry.status >= 500)) return THEME.error;
+  if (entry.status !== undefined && entry.status >= 400) return THEME.warning;
+  if (entry.status !== undefined) return THEME.success;
+  return THEME.textSecondary;
+};
+
+/**
+ * Path and query of a URL, the server is shown separately
+ */
+const getPath = (url: string) => url.replace(/^https?:\/\/[^/]+/, '');
+
+export default function NetworkLogScreen() {
+  const router = useRouter();
+  const { t } = useLanguage();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+
+  const entries = useSyncExternalStore(subscribeToNetworkLog, getNetworkEntries);
+  const visibleEntries = entries.slice().reverse();
+
+  const handleCopyCurl = async (entry: NetworkEntry) => {
+    await Clipboard.setStringAsync(toCurl(entry));
+    setCopiedId(entry.id);
+    setTimeout(() => setCopiedId(current => (current === entry.id ? null : current)), COPIED_FEEDBACK_MS);
+  };
+
+  const renderSection = (title: string, content?: string) =>
+    content ? (
+      <View style={styles.section}>
+        <Text style={styles.sectionLabel}>{title}</Text>
+        <Text style={styles.code} selectable>
+          {content}
+        </Text>
+      </View>
+    ) : null;
+
+  const renderEntry = ({ item }: { item: NetworkEntry }) => {
+    const expanded = expandedId === item.id;
+
+    return (
+      <TouchableOpacity
+        style={[styles.entry, { borderLeftColor: getStatusColor(item) }]}
+        onPress={() => setExpandedId(expanded ? null : item.id)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.entryHeader}>
+          <Text style={styles.method}>{item.method}</Text>
+          <Text style={[styles.status, { color: getStatusColor(item) }]}>
+            {item.status ?? (item.error ? 'ERR' : t.pending)}
+          </Text>
+          <Text style={styles.entryMeta}>
+            {item.durationMs !== undefined ? `${item.durationMs} ms · ` : ''}
+            {format(item.startedAt, 'HH:mm:ss')}
+          </Text>
+        </View>
+        <Text style={styles.path} numberOfLines={expanded ? undefined : 1}>
+          {expanded ? item.url : getPath(item.url)}
+        </Text>
+
+        {expanded && (
+          <>
+            {renderSection(t.error, item.error)}
+            {renderSection(
+              t.requestHeaders,
+              Object.entries(item.requestHeaders)
+                .map(([name, value]) => `${name}: ${value}`)
+                .join('\n')
+            )}
+            {renderSection(t.requestBody, item.requestBody)}
+            {renderSection(t.responseBody, item.responseBody)}
+
+            <TouchableOpacity style={styles.copyButton} onPress={() => handleCopyCurl(item)}>
+              <Ionicons
+                name={copiedId === item.id ? 'checkmark' : 'copy-outline'}
+                size={16}
+                color={THEME.textPrimary}
+              />
+              <Text style={styles.copyButtonText}>
+                {copiedId === item.id ? t.copied : t.copyCurl}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
+      {/* HEADER */}
+      <View style={styles.headerRow}>
+        <TouchableOpacity style={styles.closeButton} onPress={() => router.back()}>
+          <Ionicons name="close" size={24} color={THEME.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerTextContainer}>
+          <Text style={styles.title}>{t.networkLog}</Text>
+          <Text style={styles.subtitle}>{entries.length}</Text>
+        </View>
+        <TouchableOpacity style={styles.closeButton} onPress={clearNetworkEntries}>
+          <Ionicons name="trash-outline" size={20} color={THEME.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={visibleEntries}
+        renderItem={renderEntry}
+        keyExtractor={item => String(item.id)}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="swap-vertical-outline" size={64} color={THEME.surfaceHighlight} />
+            <Text style={styles.emptyText}>
+              {isLoggingEnabled() ? t.noRequests : t.networkLogDisabled}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: THEME.background,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 40,
+    paddingHorizontal: 16,
+    paddingBottom: 20,
+    backgroundColor: THEME.background,
+    borderBottomWidth: 1,
+    borderBottomColor: THEME.surfaceHighlight,
+  },
+  headerTextContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: THEME.textPrimary,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: THEME.textSecondary,
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: THEME.surfaceHighlight,
+    borderRadius: 20,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 60,
+  },
+  entry: {
+    backgroundColor: THEME.surface,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+    borderLeftWidth: 3,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  method: {
+    color: THEME.textPrimary,
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  status: {
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  entryMeta: {
+    flex: 1,
+    textAlign: 'right',
+    color: THEME.textSecondary,
+    fontSize: 11,
+  },
+  path: {
+    color: THEME.textPrimary,
+    fontSize: 12,
+    fontFamily: 'Courier',
+  },
+  section: {
+    marginTop: 10,
+  },
+  sectionLabel: {
+    color: THEME.textSecondary,
+    fontSize: 10,
+    fontWeight: 'bold',
+    marginBottom: 4,
+    textTransform: 'uppercase',
+  },
+  code: {
+    color: THEME.textSecondary,
+    fontSize: 11,
+    fontFamily: 'Courier',
+    backgroundColor: THEME.background,
+    borderRadius: 6,
+    padding: 8,
+  },
+  copyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: THEME.surfaceHighlight,
+  },
+  copyButtonText: {
+    color: THEME.textPrimary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: THEME.textSecondary,
+    textAlign: 'center',
+    marginTop: 20,
+    fontStyle: 'italic',
+    fontSize: 16,
+  },
+});
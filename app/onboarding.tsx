@@ -1,4 +1,5 @@
 import { useLanguage } from '@/context/LanguageContext';
+import { createLogger } from '@/services/logger';
 import { setOnboardingCompleted } from '@/services/storage';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -18,6 +19,8 @@ import {
 
 const { width, height } = Dimensions.get('window');
 
+const log = createLogger('onboarding');
+
 const THEME = {
   background: '#121212',
   textPrimary: '#FFFFFF',
@@ -89,7 +92,7 @@ export default function OnboardingScreen() {
       await setOnboardingCompleted();
       router.replace('/setup');
     } catch (error) {
-      console.error('Failed to complete onboarding', error);
+      log.error('Failed to complete onboarding', error);
       router.replace('/setup');
     }
   };
@@ -1,13 +1,40 @@
 import { useLanguage } from '@/context/LanguageContext';
+import { useServer } from '@/context/ServerContext';
+import { formatError } from '@/services/api-errors';
+import { getUnavailableFeatures } from '@/services/capabilities';
+import { CompatibilityQuirk } from '@/services/api-schema';
+import {
+  CompatibilityCheck,
+  CompatibilityCheckId,
+  CompatibilityReport,
+  checkCompatibility,
+} from '@/services/compatibility';
+import {
+  DiagnosticStep,
+  DiagnosticStepId,
+  diagnoseConnection,
+  normalizeApiBasePath,
+  normalizeServerUrl,
+} from '@/services/diagnostics';
+import {
+  disableFailureNotifications,
+  enableFailureNotifications,
+} from '@/services/notifications';
+import { configureLogger, createLogger } from '@/services/logger';
+import { createN8nClient, getReservedHeaders } from '@/services/n8n-api';
+import { clearNetworkEntries } from '@/services/network-log';
 import {
   getActiveServerId,
   getServers,
+  isFailureNotificationsEnabled,
+  isDebugLoggingEnabled,
   removeServer,
   saveServer,
-  setActiveServerId,
+  setDebugLoggingEnabled,
 } from '@/services/storage';
-import { N8nServer } from '@/types/n8n';
+import { N8nConfig, N8nCustomHeader, N8nFeature, N8nServer } from '@/types/n8n';
 import { Ionicons } from '@expo/vector-icons';
+import { useQueryClient } from '@tanstack/react-query';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
 import {
@@ -19,6 +46,7 @@ import {
   ScrollView,
   StatusBar,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
@@ -36,30 +64,122 @@ const THEME = {
   accent: '#EA4B71', // n8n Primary
   success: '#22c55e',
   error: '#FF5252',
+  warning: '#F59E0B',
+};
+
+const log = createLogger('setup');
+
+const CHECK_LABELS: Record<
+  CompatibilityCheckId,
+  'checkWorkflows' | 'checkExecutions' | 'checkExecutionData'
+> = {
+  workflows: 'checkWorkflows',
+  executions: 'checkExecutions',
+  executionData: 'checkExecutionData',
+};
+
+const QUIRK_LABELS: Record<
+  CompatibilityQuirk,
+  'quirkBareArrayList' | 'quirkNumericIds' | 'quirkMissingExecutionStatus' | 'quirkUnknownExecutionStatus'
+> = {
+  bareArrayList: 'quirkBareArrayList',
+  numericIds: 'quirkNumericIds',
+  missingExecutionStatus: 'quirkMissingExecutionStatus',
+  unknownExecutionStatus: 'quirkUnknownExecutionStatus',
+};
+
+const FEATURE_LABELS: Record<
+  N8nFeature,
+  | 'featureProjects'
+  | 'featureVariables'
+  | 'featureSourceControl'
+  | 'featureExecutionRetry'
+  | 'featureExecutionStop'
+> = {
+  projects: 'featureProjects',
+  variables: 'featureVariables',
+  sourceControl: 'featureSourceControl',
+  executionRetry: 'featureExecutionRetry',
+  executionStop: 'featureExecutionStop',
+};
+
+const STEP_LABELS: Record<
+  DiagnosticStepId,
+  | 'stepUrl'
+  | 'stepReachability'
+  | 'stepTls'
+  | 'stepProxyAuth'
+  | 'stepApiPath'
+  | 'stepAuth'
+  | 'stepWorkflows'
+  | 'stepExecutions'
+  | 'stepLatency'
+> = {
+  url: 'stepUrl',
+  reachability: 'stepReachability',
+  tls: 'stepTls',
+  proxyAuth: 'stepProxyAuth',
+  apiPath: 'stepApiPath',
+  auth: 'stepAuth',
+  workflows: 'stepWorkflows',
+  executions: 'stepExecutions',
+  latency: 'stepLatency',
+};
+
+const STEP_ICONS: Record<
+  Exclude<DiagnosticStep['status'], 'pending'>,
+  { name: keyof typeof Ionicons.glyphMap; color: string }
+> = {
+  passed: { name: 'checkmark-circle', color: THEME.success },
+  warning: { name: 'alert-circle', color: THEME.warning },
+  failed: { name: 'close-circle', color: THEME.error },
+  skipped: { name: 'remove-circle-outline', color: THEME.textSecondary },
+};
+
+const CHECK_ICONS: Record<
+  CompatibilityCheck['status'],
+  { name: keyof typeof Ionicons.glyphMap; color: string }
+> = {
+  ok: { name: 'checkmark-circle', color: THEME.success },
+  warning: { name: 'alert-circle', color: THEME.warning },
+  failed: { name: 'close-circle', color: THEME.error },
+  skipped: { name: 'remove-circle-outline', color: THEME.textSecondary },
 };
 
 export default function SetupScreen() {
   const router = useRouter();
-  const params = useLocalSearchParams<{ action?: string }>();
+  const params = useLocalSearchParams<{ action?: string; serverId?: string }>();
 
   // UI Mode
   const [viewMode, setViewMode] = useState<'list' | 'form'>('list');
 
   const { t, language, setLanguage } = useLanguage();
+  const { reloadServer, switchServer } = useServer();
+  const queryClient = useQueryClient();
 
   // Form State
   const [editingId, setEditingId] = useState<string | null>(null);
   const [name, setName] = useState('');
   const [serverUrl, setServerUrl] = useState('');
   const [apiKey, setApiKey] = useState('');
+  const [apiBasePath, setApiBasePath] = useState('');
+  const [customHeaders, setCustomHeaders] = useState<N8nCustomHeader[]>([]);
+  const [basicAuthUsername, setBasicAuthUsername] = useState('');
+  const [basicAuthPassword, setBasicAuthPassword] = useState('');
+  const [showAdvanced, setShowAdvanced] = useState(false);
 
   // Data State
   const [servers, setServers] = useState<N8nServer[]>([]);
   const [activeId, setActiveId] = useState<string | null>(null);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(false);
+  const [debugLogging, setDebugLogging] = useState(false);
 
   // UI State
   const [loading, setLoading] = useState(false);
   const [testing, setTesting] = useState(false);
+  const [diagnosticSteps, setDiagnosticSteps] = useState<DiagnosticStep[] | null>(null);
+  const [compatibility, setCompatibility] = useState<CompatibilityReport | null>(null);
+  const [togglingNotifications, setTogglingNotifications] = useState(false);
   const [loadingConfig, setLoadingConfig] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [alertConfig, setAlertConfig] = useState<{
@@ -84,9 +204,20 @@ export default function SetupScreen() {
       setName('');
       setServerUrl('');
       setApiKey('');
+      setApiBasePath('');
+      setCustomHeaders([]);
+      setBasicAuthUsername('');
+      setBasicAuthPassword('');
+      setShowAdvanced(false);
       setViewMode('form');
+    } else if (params.action === 'edit' && params.serverId) {
+      // Opened from an error's recovery action, go straight to that server's form
+      getServers().then(serverList => {
+        const server = serverList.find(s => s.id === params.serverId);
+        if (server) handleEdit(server);
+      });
     }
-  }, [params.action]);
+  }, [params.action, params.serverId]);
 
   const loadData = async () => {
     try {
@@ -96,11 +227,13 @@ export default function SetupScreen() {
 
       setServers(serverList);
       setActiveId(currentActive || (serverList.length > 0 ? serverList[0].id : null));
+      setNotificationsEnabled(await isFailureNotificationsEnabled());
+      setDebugLogging(await isDebugLoggingEnabled());
 
       // If no servers, go to form automatically? Optional, but let's stick to list for consistency
       // unless completely empty and first run?
     } catch (error) {
-      console.error('Error loading config:', error);
+      log.error('Error loading config', error);
     } finally {
       setLoadingConfig(false);
     }
@@ -136,11 +269,20 @@ export default function SetupScreen() {
     setName(server.name);
     setServerUrl(server.serverUrl);
     setApiKey(server.apiKey);
+    setApiBasePath(server.apiBasePath ?? '');
+    setCustomHeaders(server.customHeaders ?? []);
+    setBasicAuthUsername(server.basicAuth?.username ?? '');
+    setBasicAuthPassword(server.basicAuth?.password ?? '');
+    // Open when something in there is set, it's easy to forget otherwise
+    setShowAdvanced(
+      !!server.apiBasePath || !!server.customHeaders?.length || !!server.basicAuth
+    );
     setViewMode('form');
   };
 
   const handleActivate = async (id: string) => {
-    await setActiveServerId(id);
+    // Also drops the cached data of the previous server
+    await switchServer(id);
     setActiveId(id);
     showAlert(t.active, 'Has cambiado el servidor activo.', 'success');
   };
@@ -152,6 +294,9 @@ export default function SetupScreen() {
       'confirm',
       async () => {
         await removeServer(id);
+        await reloadServer();
+        // The dashboard spans every server, its cache still lists this one
+        queryClient.invalidateQueries({ queryKey: ['dashboard'] });
         if (editingId === id) {
           resetForm();
           setViewMode('list');
@@ -161,11 +306,46 @@ export default function SetupScreen() {
     );
   };
 
+  const handleToggleNotifications = async (enabled: boolean) => {
+    setTogglingNotifications(true);
+    try {
+      if (enabled) {
+        const granted = await enableFailureNotifications();
+        if (!granted) {
+          showAlert(t.error, t.notificationsDenied, 'error');
+          return;
+        }
+      } else {
+        await disableFailureNotifications();
+      }
+      setNotificationsEnabled(enabled);
+    } catch (error) {
+      showAlert(t.error, error instanceof Error ? error.message : String(error), 'error');
+    } finally {
+      setTogglingNotifications(false);
+    }
+  };
+
+  const handleToggleDebugLogging = async (enabled: boolean) => {
+    setDebugLogging(enabled);
+    configureLogger({ enabled });
+    // Requests captured so far go with it
+    if (!enabled) clearNetworkEntries();
+    await setDebugLoggingEnabled(enabled);
+  };
+
   const resetForm = () => {
     setEditingId(null);
     setName('');
     setServerUrl('');
     setApiKey('');
+    setApiBasePath('');
+    setCustomHeaders([]);
+    setBasicAuthUsername('');
+    setBasicAuthPassword('');
+    setShowAdvanced(false);
+    setDiagnosticSteps(null);
+    setCompatibility(null);
   };
 
   const goBackToList = () => {
@@ -173,61 +353,78 @@ export default function SetupScreen() {
     setViewMode('list');
   };
 
+  const updateCustomHeader = (index: number, changes: Partial<N8nCustomHeader>) => {
+    setCustomHeaders(prev =>
+      prev.map((header, i) => (i === index ? { ...header, ...changes } : header))
+    );
+  };
+
+  const removeCustomHeader = (index: number) => {
+    setCustomHeaders(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Connection settings as typed in the form, the URL is normalized by the caller
+  const formConnection = (): N8nConfig => {
+    const headers = customHeaders
+      .map(header => ({ name: header.name.trim(), value: header.value.trim() }))
+      .filter(header => header.name);
+
+    return {
+      id: editingId || undefined,
+      name: name.trim(),
+      serverUrl: serverUrl.trim(),
+      apiKey: apiKey.trim(),
+      apiBasePath: normalizeApiBasePath(apiBasePath),
+      customHeaders: headers.length > 0 ? headers : undefined,
+      // The password may legitimately be empty, the username may not
+      basicAuth: basicAuthUsername.trim()
+        ? { username: basicAuthUsername.trim(), password: basicAuthPassword }
+        : undefined,
+    };
+  };
+
+  /**
+   * A custom header that would collide with the credentials the app sends, if any
+   */
+  const findReservedHeader = (connection: N8nConfig) => {
+    const reserved = getReservedHeaders(connection).map(header => header.toLowerCase());
+    return connection.customHeaders?.find(header => reserved.includes(header.name.toLowerCase()));
+  };
+
   const testConnection = async () => {
     if (!serverUrl.trim() || !apiKey.trim()) {
       showAlert('Error', 'Por favor completa URL y API Key para probar', 'error');
       return;
     }
 
+    const reservedHeader = findReservedHeader(formConnection());
+    if (reservedHeader) {
+      showAlert(t.error, `${t.reservedHeader}: ${reservedHeader.name}`, 'error');
+      return;
+    }
+
     setTesting(true);
+    setDiagnosticSteps(null);
+    setCompatibility(null);
 
     try {
-      let testUrl = serverUrl.trim();
-      testUrl = testUrl.replace(/\/$/, '');
-      testUrl = testUrl.replace(/\/api\/v1\/?$/, '');
-      testUrl = testUrl.replace(/\/workflow\/[^/]+.*$/, '');
-
-      try {
-        const url = new URL(testUrl);
-        testUrl = `${url.protocol}//${url.host}`;
-      } catch {
-        showAlert('URL Inválida', 'La URL no es válida', 'error');
-        setTesting(false);
-        return;
-      }
-
-      const apiUrl = `${testUrl}/api/v1/workflows`;
+      const connection = formConnection();
+      const diagnosis = await diagnoseConnection(connection, setDiagnosticSteps);
+      setDiagnosticSteps(diagnosis.steps);
 
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: {
-          'X-N8N-API-KEY': apiKey.trim(),
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        const workflowCount = data.data?.length || data.length || 0;
-        showAlert(
-          'Conexión exitosa',
-          `Se encontraron ${workflowCount} workflow(s).\n\nURL: ${testUrl}`,
-          'success'
-        );
-      } else {
-        const errorText = await response.text();
-        showAlert(
-          'Error de conexión',
-          `Status: ${response.status}\n${response.statusText}\n\n${errorText.substring(0, 200)}`,
-          'error'
+      // Only worth probing the endpoints in depth once the basics work
+      if (diagnosis.ok && diagnosis.serverUrl) {
+        setCompatibility(
+          await checkCompatibility(
+            createN8nClient({
+              ...connection,
+              id: connection.id ?? 'connection-test',
+              name: connection.name ?? '',
+              serverUrl: diagnosis.serverUrl,
+            })
+          )
         );
       }
-    } catch (error) {
-      showAlert(
-        'Error de red',
-        error instanceof Error ? error.message : 'No se pudo conectar al servidor',
-        'error'
-      );
     } finally {
       setTesting(false);
     }
@@ -239,36 +436,25 @@ export default function SetupScreen() {
       return;
     }
 
-    const urlPattern = /^https?:\/\/.+/i;
-    if (!urlPattern.test(serverUrl.trim())) {
+    const cleanUrl = normalizeServerUrl(serverUrl);
+    if (!cleanUrl) {
       showAlert('URL Inválida', 'La URL debe comenzar con http:// o https://', 'error');
       return;
     }
 
+    const reservedHeader = findReservedHeader(formConnection());
+    if (reservedHeader) {
+      showAlert(t.error, `${t.reservedHeader}: ${reservedHeader.name}`, 'error');
+      return;
+    }
+
     setLoading(true);
 
     try {
-      let cleanUrl = serverUrl.trim();
-      cleanUrl = cleanUrl.replace(/\/$/, '');
-      cleanUrl = cleanUrl.replace(/\/api\/v1\/?$/, '');
-      cleanUrl = cleanUrl.replace(/\/workflow\/[^/]+.*$/, '');
-
-      try {
-        const url = new URL(cleanUrl);
-        cleanUrl = `${url.protocol}//${url.host}`;
-      } catch {
-        showAlert('URL Inválida', 'No se pudo procesar la URL.', 'error');
-        setLoading(false);
-        return;
-      }
-
-      await saveServer({
-        id: editingId || undefined,
-        name: name.trim(),
-        serverUrl: cleanUrl,
-        apiKey: apiKey.trim(),
-      });
+      await saveServer({ ...formConnection(), serverUrl: cleanUrl });
 
+      await reloadServer();
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
       await loadData();
       resetForm();
       setViewMode('list'); // Go back to list after saving
@@ -282,6 +468,7 @@ export default function SetupScreen() {
 
   const renderServerItem = ({ item, index }: { item: N8nServer; index: number }) => {
     const isActive = item.id === activeId;
+    const unavailableFeatures = getUnavailableFeatures(item);
 
     return (
       <Animated.View entering={FadeInDown.delay(index * 100).springify()}>
@@ -313,6 +500,14 @@ export default function SetupScreen() {
               <Text style={styles.serverUrl} numberOfLines={1}>
                 {item.serverUrl.replace(/^https?:\/\//, '')}
               </Text>
+              {item.capabilities?.version && (
+                <Text style={styles.serverMeta}>n8n {item.capabilities.version}</Text>
+              )}
+              {unavailableFeatures.length > 0 && (
+                <Text style={styles.serverMeta} numberOfLines={2}>
+                  {t.unavailableFeatures}: {unavailableFeatures.map(f => t[FEATURE_LABELS[f]]).join(', ')}
+                </Text>
+              )}
             </View>
 
             {/* Action Column */}
@@ -377,7 +572,11 @@ export default function SetupScreen() {
         )}
 
         <View style={styles.headerTextContainer}>
-          <Text style={styles.title}>
+          {/* Hidden: long press the title to open the network console */}
+          <Text
+            style={styles.title}
+            onLongPress={viewMode === 'list' ? () => router.push('/network-log') : undefined}
+          >
             {viewMode === 'list' ? t.servers : editingId ? t.editServer : t.newServer}
           </Text>
           {viewMode === 'list' && <Text style={styles.subtitle}>{t.manageConnections}</Text>}
@@ -443,16 +642,56 @@ export default function SetupScreen() {
               </View>
             }
             ListFooterComponent={
-              <TouchableOpacity
-                style={styles.introButton}
-                onPress={async () => {
-                  const { resetOnboarding } = require('@/services/storage');
-                  await resetOnboarding();
-                  router.replace('/onboarding');
-                }}
-              >
-                <Text style={styles.introButtonText}>{t.introLink}</Text>
-              </TouchableOpacity>
+              <>
+                {/* Failure notifications */}
+                <View style={[styles.serverCard, styles.settingRow]}>
+                  <View style={styles.settingText}>
+                    <Text style={styles.settingTitle}>{t.failureNotifications}</Text>
+                    <Text style={styles.settingHint}>{t.failureNotificationsHint}</Text>
+                  </View>
+                  <Switch
+                    value={notificationsEnabled}
+                    onValueChange={handleToggleNotifications}
+                    disabled={togglingNotifications}
+                    trackColor={{ false: THEME.surfaceHighlight, true: THEME.accent }}
+                    thumbColor={THEME.textPrimary}
+                  />
+                </View>
+
+                {/* Debug logging */}
+                <View style={[styles.serverCard, styles.settingRow]}>
+                  <View style={styles.settingText}>
+                    <Text style={styles.settingTitle}>{t.debugLogging}</Text>
+                    <Text style={styles.settingHint}>{t.debugLoggingHint}</Text>
+                    {debugLogging && (
+                      <TouchableOpacity
+                        style={styles.settingLink}
+                        onPress={() => router.push('/debug-logs')}
+                      >
+                        <Text style={styles.settingLinkText}>{t.viewLogs}</Text>
+                        <Ionicons name="chevron-forward" size={14} color={THEME.accent} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  <Switch
+                    value={debugLogging}
+                    onValueChange={handleToggleDebugLogging}
+                    trackColor={{ false: THEME.surfaceHighlight, true: THEME.accent }}
+                    thumbColor={THEME.textPrimary}
+                  />
+                </View>
+
+                <TouchableOpacity
+                  style={styles.introButton}
+                  onPress={async () => {
+                    const { resetOnboarding } = require('@/services/storage');
+                    await resetOnboarding();
+                    router.replace('/onboarding');
+                  }}
+                >
+                  <Text style={styles.introButtonText}>{t.introLink}</Text>
+                </TouchableOpacity>
+              </>
             }
           />
           {/* FAB */}
@@ -520,6 +759,105 @@ export default function SetupScreen() {
             </View>
           </View>
 
+          <TouchableOpacity
+            style={styles.advancedToggle}
+            onPress={() => setShowAdvanced(prev => !prev)}
+          >
+            <Text style={styles.label}>{t.advancedSettings}</Text>
+            <Ionicons
+              name={showAdvanced ? 'chevron-up' : 'chevron-down'}
+              size={18}
+              color={THEME.textSecondary}
+            />
+          </TouchableOpacity>
+
+          {showAdvanced && (
+            <>
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>{t.apiBasePath}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="/api/v1"
+                  placeholderTextColor={THEME.textSecondary}
+                  value={apiBasePath}
+                  onChangeText={setApiBasePath}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                  editable={!loading}
+                />
+                <Text style={styles.settingHint}>{t.apiBasePathHelp}</Text>
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>{t.customHeaders}</Text>
+                {customHeaders.map((header, index) => (
+                  <View key={index} style={styles.customHeaderRow}>
+                    <TextInput
+                      style={[styles.input, styles.customHeaderInput]}
+                      placeholder={t.headerName}
+                      placeholderTextColor={THEME.textSecondary}
+                      value={header.name}
+                      onChangeText={value => updateCustomHeader(index, { name: value })}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      editable={!loading}
+                    />
+                    <TextInput
+                      style={[styles.input, styles.customHeaderInput]}
+                      placeholder={t.headerValue}
+                      placeholderTextColor={THEME.textSecondary}
+                      value={header.value}
+                      onChangeText={value => updateCustomHeader(index, { value })}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      secureTextEntry
+                      editable={!loading}
+                    />
+                    <TouchableOpacity onPress={() => removeCustomHeader(index)} disabled={loading}>
+                      <Ionicons name="close-circle" size={22} color={THEME.textSecondary} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                <TouchableOpacity
+                  style={styles.settingLink}
+                  onPress={() => setCustomHeaders(prev => [...prev, { name: '', value: '' }])}
+                  disabled={loading}
+                >
+                  <Ionicons name="add" size={16} color={THEME.accent} />
+                  <Text style={styles.settingLinkText}>{t.addHeader}</Text>
+                </TouchableOpacity>
+                <Text style={styles.settingHint}>{t.customHeadersHelp}</Text>
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>{t.basicAuth}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={t.username}
+                  placeholderTextColor={THEME.textSecondary}
+                  value={basicAuthUsername}
+                  onChangeText={setBasicAuthUsername}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  editable={!loading}
+                />
+                <TextInput
+                  style={styles.input}
+                  placeholder={t.password}
+                  placeholderTextColor={THEME.textSecondary}
+                  value={basicAuthPassword}
+                  onChangeText={setBasicAuthPassword}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  secureTextEntry
+                  editable={!loading}
+                />
+                <Text style={styles.settingHint}>{t.basicAuthHelp}</Text>
+              </View>
+            </>
+          )}
+
           <View style={styles.actionsContainer}>
             <TouchableOpacity
               style={[styles.testButton, testing && styles.buttonDisabled]}
@@ -545,6 +883,82 @@ export default function SetupScreen() {
               )}
             </TouchableOpacity>
           </View>
+
+          {diagnosticSteps && (
+            <View style={styles.reportCard}>
+              <Text style={styles.settingTitle}>{t.connectionTest}</Text>
+              {!testing && (
+                <Text style={styles.settingHint}>
+                  {diagnosticSteps.some(step => step.status === 'failed')
+                    ? t.connectionFailed
+                    : t.connectionOk}
+                </Text>
+              )}
+              {diagnosticSteps.map(step => (
+                <View key={step.id} style={styles.reportRow}>
+                  {step.status === 'pending' ? (
+                    <ActivityIndicator size="small" color={THEME.textSecondary} />
+                  ) : (
+                    <Ionicons
+                      name={STEP_ICONS[step.status].name}
+                      size={18}
+                      color={STEP_ICONS[step.status].color}
+                    />
+                  )}
+                  <View style={styles.settingText}>
+                    <Text style={styles.reportLabel}>
+                      {t[STEP_LABELS[step.id]]}
+                      {step.value ? <Text style={styles.reportValue}> · {step.value}</Text> : null}
+                    </Text>
+                    {step.id === 'url' && step.status === 'failed' && (
+                      <Text style={styles.reportError}>{t.invalidUrlHint}</Text>
+                    )}
+                    {step.id === 'tls' && step.status === 'warning' && (
+                      <Text style={styles.settingHint}>{t.insecureConnectionHint}</Text>
+                    )}
+                    {step.id === 'latency' && step.status === 'warning' && (
+                      <Text style={styles.settingHint}>{t.slowConnectionHint}</Text>
+                    )}
+                    {step.error !== undefined && (
+                      <Text style={styles.reportError}>{formatError(step.error, t)}</Text>
+                    )}
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {compatibility && (
+            <View style={styles.reportCard}>
+              <Text style={styles.settingTitle}>{t.compatibility}</Text>
+              <Text style={styles.settingHint}>
+                {compatibility.compatible ? t.compatibleServer : t.incompatibleServer}
+              </Text>
+              {compatibility.checks.map(check => (
+                <View key={check.id} style={styles.reportRow}>
+                  <Ionicons
+                    name={CHECK_ICONS[check.status].name}
+                    size={18}
+                    color={CHECK_ICONS[check.status].color}
+                  />
+                  <View style={styles.settingText}>
+                    <Text style={styles.reportLabel}>{t[CHECK_LABELS[check.id]]}</Text>
+                    {check.status === 'skipped' && (
+                      <Text style={styles.settingHint}>{t.checkSkipped}</Text>
+                    )}
+                    {check.quirks.map(quirk => (
+                      <Text key={quirk} style={styles.settingHint}>
+                        {t[QUIRK_LABELS[quirk]]}
+                      </Text>
+                    ))}
+                    {check.error !== undefined && (
+                      <Text style={styles.reportError}>{formatError(check.error, t)}</Text>
+                    )}
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
         </ScrollView>
       )}
 
@@ -753,6 +1167,12 @@ const styles = StyleSheet.create({
     color: THEME.textSecondary,
     fontSize: 12,
   },
+  serverMeta: {
+    color: THEME.textSecondary,
+    fontSize: 11,
+    opacity: 0.8,
+    marginTop: 2,
+  },
   serverActions: {
     justifyContent: 'center',
   },
@@ -885,6 +1305,21 @@ const styles = StyleSheet.create({
     fontSize: 12,
     lineHeight: 18,
   },
+  advancedToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  customHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  customHeaderInput: {
+    flex: 1,
+  },
   actionsContainer: {
     gap: 16,
     marginTop: 24,
@@ -919,8 +1354,65 @@ const styles = StyleSheet.create({
     marginTop: 16,
     color: THEME.textSecondary,
   },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  settingText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  settingTitle: {
+    color: THEME.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  settingHint: {
+    color: THEME.textSecondary,
+    fontSize: 12,
+    marginTop: 4,
+  },
+  settingLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 10,
+  },
+  settingLinkText: {
+    color: THEME.accent,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  reportCard: {
+    backgroundColor: THEME.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 24,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  reportRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    marginTop: 12,
+  },
+  reportLabel: {
+    color: THEME.textPrimary,
+    fontSize: 14,
+  },
+  reportValue: {
+    color: THEME.textSecondary,
+    fontSize: 12,
+  },
+  reportError: {
+    color: THEME.error,
+    fontSize: 12,
+    marginTop: 4,
+  },
   introButton: {
-    marginTop: 40,
+    marginTop: 28,
     alignItems: 'center',
     padding: 16,
   },
@@ -1,13 +1,15 @@
 import { Ionicons } from '@expo/vector-icons';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { format, formatDistanceToNow, subDays, subHours } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
   Modal,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
   RefreshControl,
   ScrollView,
   StatusBar,
@@ -19,14 +21,20 @@ import {
 } from 'react-native';
 
 import {
-  activateWorkflow,
-  deactivateWorkflow,
-  getExecutions,
-  getWorkflow,
-  updateWorkflow,
-} from '@/services/n8n-api';
+  describeScheduleRule,
+  formatScheduleGap,
+  getHeartbeatStatus,
+  getLastScheduledRun,
+  getWorkflowSchedules,
+} from '@/services/schedule';
+import { AlertConfig, AlertModal, AlertType, HIDDEN_ALERT } from '@/components/ui/AlertModal';
+import { WorkflowGraph } from '@/components/workflows/WorkflowGraph';
 import { N8nExecution } from '@/types/n8n';
 import { useLanguage } from '@/context/LanguageContext';
+import { requireClient, useServer } from '@/context/ServerContext';
+import { describeError, formatError } from '@/services/api-errors';
+import { hasFeature } from '@/services/capabilities';
+import { DATE_LOCALES } from '@/services/i18n/strings';
 
 // Spotify-inspired Theme Constants (Shared)
 const THEME = {
@@ -40,29 +48,43 @@ const THEME = {
   error: '#FF5252',
 };
 
+const EXECUTIONS_PAGE_SIZE = 20;
+const RECENT_EXECUTIONS_LIMIT = 250;
+const RUNNING_POLL_INTERVAL = 3000;
+
+type TimeFilter = 'all' | '24h' | '7d' | '30d';
+
+/**
+ * Lower bound of the selected period, computed when the first page loads
+ */
+function getStartedAfter(timeFilter: TimeFilter): Date | undefined {
+  const now = new Date();
+  switch (timeFilter) {
+    case '24h':
+      return subHours(now, 24);
+    case '7d':
+      return subDays(now, 7);
+    case '30d':
+      return subDays(now, 30);
+    default:
+      return undefined;
+  }
+}
+
 export default function WorkflowDetail() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const queryClient = useQueryClient();
-  const { t } = useLanguage();
-  const [currentPage, setCurrentPage] = useState(1);
+  const { t, language } = useLanguage();
+  const { server, client, loading: serverLoading } = useServer();
   const [statusFilter, setStatusFilter] = useState<'all' | 'success' | 'error' | 'running'>('all');
-  const [timeFilter, setTimeFilter] = useState<'all' | '24h' | '7d' | '30d'>('all');
+  const [timeFilter, setTimeFilter] = useState<TimeFilter>('all');
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectingAll, setSelectingAll] = useState(false);
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [editedName, setEditedName] = useState('');
-  const [alertConfig, setAlertConfig] = useState<{
-    visible: boolean;
-    title: string;
-    message: string;
-    type: 'success' | 'error' | 'confirm';
-    onConfirm?: () => void;
-  }>({
-    visible: false,
-    title: '',
-    message: '',
-    type: 'success',
-  });
-  const ITEMS_PER_PAGE = 10;
+  const [alertConfig, setAlertConfig] = useState<AlertConfig>(HIDDEN_ALERT);
 
   const {
     data: workflow,
@@ -70,91 +92,280 @@ export default function WorkflowDetail() {
     error: workflowError,
     refetch: refetchWorkflow,
   } = useQuery({
-    queryKey: ['workflow', id],
-    queryFn: () => getWorkflow(id!),
-    enabled: !!id,
+    queryKey: [server?.id, 'workflow', id],
+    queryFn: ({ signal }) => requireClient(client).getWorkflow(id!, { signal }),
+    enabled: !!id && !!client,
   });
 
+  // Unfiltered recent executions, used for the stats and filter badges
   const {
-    data: executions,
+    data: recentExecutions,
     isLoading: executionsLoading,
-    refetch: refetchExecutions,
-    isRefetching,
+    refetch: refetchRecentExecutions,
+    isRefetching: isRefetchingRecent,
   } = useQuery({
-    queryKey: ['executions', id],
-    queryFn: () => getExecutions(id),
-    enabled: !!id,
+    queryKey: [server?.id, 'executions', id, 'recent'],
+    queryFn: async ({ signal }) =>
+      (
+        await requireClient(client).getExecutionsPage(
+          { workflowId: id },
+          { limit: RECENT_EXECUTIONS_LIMIT },
+          { signal }
+        )
+      ).data,
+    enabled: !!id && !!client,
+    refetchInterval: query =>
+      query.state.data?.some(e => e.status === 'running') ? RUNNING_POLL_INTERVAL : false,
   });
 
-  // Filter executions based on status and time
-  const filteredExecutions =
-    executions?.filter(e => {
-      // Status filter
-      if (statusFilter !== 'all' && e.status !== statusFilter) {
-        return false;
-      }
+  // Last run started by a schedule trigger, for the heartbeat check
+  const isScheduled = !!workflow?.active && getWorkflowSchedules(workflow).length > 0;
+  const {
+    data: lastScheduledRun,
+    isSuccess: lastRunLoaded,
+    refetch: refetchLastScheduledRun,
+  } = useQuery({
+    queryKey: [server?.id, 'executions', id, 'lastScheduledRun'],
+    queryFn: ({ signal }) => getLastScheduledRun(requireClient(client), id!, { signal }),
+    enabled: !!id && !!client && isScheduled,
+  });
 
-      // Time filter
-      if (timeFilter !== 'all') {
-        const executionDate = new Date(e.stoppedAt || e.startedAt);
-        const now = new Date();
-
-        switch (timeFilter) {
-          case '24h':
-            return executionDate >= subHours(now, 24);
-          case '7d':
-            return executionDate >= subDays(now, 7);
-          case '30d':
-            return executionDate >= subDays(now, 30);
-        }
-      }
+  // History list, filtered by the server
+  const {
+    data: executionPages,
+    isLoading: filteredLoading,
+    refetch: refetchFilteredExecutions,
+    isRefetching: isRefetchingFiltered,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [server?.id, 'executions', id, statusFilter, timeFilter],
+    queryFn: async ({ pageParam, signal }) => {
+      // Later pages reuse the first page's window, so it doesn't move while scrolling
+      const startedAfter = pageParam ? pageParam.startedAfter : getStartedAfter(timeFilter);
+      const page = await requireClient(client).getExecutionsPage(
+        {
+          workflowId: id,
+          status: statusFilter === 'all' ? undefined : statusFilter,
+          startedAfter,
+        },
+        { limit: EXECUTIONS_PAGE_SIZE, cursor: pageParam?.cursor },
+        { signal }
+      );
+      return { ...page, startedAfter };
+    },
+    initialPageParam: undefined as { cursor: string; startedAfter?: Date } | undefined,
+    getNextPageParam: lastPage =>
+      lastPage.nextCursor
+        ? { cursor: lastPage.nextCursor, startedAfter: lastPage.startedAfter }
+        : undefined,
+    enabled: !!id && !!client,
+    // Poll while anything listed is running so stopped runs transition on their own
+    refetchInterval: query =>
+      query.state.data?.pages.some(page => page.data.some(e => e.status === 'running'))
+        ? RUNNING_POLL_INTERVAL
+        : false,
+  });
+
+  const filteredExecutions = executionPages?.pages.flatMap(page => page.data) || [];
+  const isRefetching = isRefetchingRecent || isRefetchingFiltered;
+
+  const refetchExecutions = () => {
+    refetchRecentExecutions();
+    refetchFilteredExecutions();
+    if (isScheduled) refetchLastScheduledRun();
+  };
+
+  // Load the next page of executions when the history is scrolled near its end
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    const nearBottom =
+      layoutMeasurement.height + contentOffset.y >= contentSize.height - layoutMeasurement.height / 2;
 
-      return true;
-    }) || [];
+    if (nearBottom && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  // A new filter means a new list, so drop any selection made on the old one
+  useEffect(() => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+  }, [statusFilter, timeFilter]);
 
-  const successCount = executions?.filter(e => e.status === 'success').length || 0;
-  const errorCount = executions?.filter(e => e.status === 'error').length || 0;
-  const runningCount = executions?.filter(e => e.status === 'running').length || 0;
+  const successCount = recentExecutions?.filter(e => e.status === 'success').length || 0;
+  const errorCount = recentExecutions?.filter(e => e.status === 'error').length || 0;
+  const runningCount = recentExecutions?.filter(e => e.status === 'running').length || 0;
+  // Older servers have no stop endpoint
+  const canStop = hasFeature(server, 'executionStop');
+  const heartbeat =
+    workflow && lastRunLoaded ? getHeartbeatStatus(workflow, lastScheduledRun) : null;
 
   const toggleMutation = useMutation({
-    mutationFn: (active: boolean) => (active ? deactivateWorkflow(id!) : activateWorkflow(id!)),
+    mutationFn: (active: boolean) => {
+      const api = requireClient(client);
+      return active ? api.deactivateWorkflow(id!) : api.activateWorkflow(id!);
+    },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['workflow', id] });
-      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+      queryClient.invalidateQueries({ queryKey: [server?.id, 'workflow', id] });
+      queryClient.invalidateQueries({ queryKey: [server?.id, 'workflows'] });
       refetchWorkflow();
     },
     onError: error => {
-      showAlert(t.error, error instanceof Error ? error.message : 'No se pudo cambiar el estado', 'error');
+      showErrorAlert(error);
     },
   });
 
   const showAlert = (
     title: string,
     message: string,
-    type: 'success' | 'error' | 'confirm' = 'success',
+    type: AlertType = 'success',
     onConfirm?: () => void
   ) => {
     setAlertConfig({ visible: true, title, message, type, onConfirm });
   };
 
+  const showErrorAlert = (error: unknown) => {
+    const { recovery, recoveryLabel } = describeError(error, t);
+    setAlertConfig({
+      visible: true,
+      title: t.error,
+      message: formatError(error, t),
+      type: 'error',
+      recoveryLabel: recovery && recovery !== 'retry' ? recoveryLabel : undefined,
+      onRecovery: openServerSettings,
+    });
+  };
+
+  const openServerSettings = () => {
+    router.push(
+      server ? { pathname: '/setup', params: { action: 'edit', serverId: server.id } } : '/setup'
+    );
+  };
+
   const hideAlert = () => {
     setAlertConfig(prev => ({ ...prev, visible: false }));
   };
 
+  const stopMutation = useMutation({
+    mutationFn: (executionId: string) => requireClient(client).stopExecution(executionId),
+    onSuccess: (_, executionId) => {
+      queryClient.invalidateQueries({ queryKey: [server?.id, 'executions', id] });
+      queryClient.invalidateQueries({ queryKey: [server?.id, 'execution', executionId] });
+    },
+    onError: error => {
+      showErrorAlert(error);
+    },
+  });
+
+  const handleStopExecution = (executionId: string) => {
+    showAlert(t.stopExecution, t.stopConfirm, 'confirm', () => stopMutation.mutate(executionId));
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: (executionIds: string[]) => requireClient(client).deleteExecutions(executionIds),
+    onSuccess: (result, executionIds) => {
+      queryClient.invalidateQueries({ queryKey: [server?.id, 'executions', id] });
+
+      if (result.failed.length === 0) {
+        exitSelectionMode();
+        showAlert(t.executionsDeleted, `${result.deleted.length}/${executionIds.length}`, 'success');
+        return;
+      }
+
+      // Keep the failed ones selected so they can be retried
+      setSelectedIds(new Set(result.failed.map(f => f.id)));
+      showAlert(
+        t.deletePartialFailure,
+        `${result.deleted.length}/${executionIds.length}\n\n` +
+          result.failed.map(f => `#${f.id}: ${describeError(f.error, t).message}`).join('\n'),
+        'error'
+      );
+    },
+    onError: error => {
+      showErrorAlert(error);
+    },
+  });
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (executionId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(executionId)) {
+        next.delete(executionId);
+      } else {
+        next.add(executionId);
+      }
+      return next;
+    });
+  };
+
+  const handleLongPressExecution = (executionId: string) => {
+    if (!selectionMode) {
+      setSelectionMode(true);
+    }
+    toggleSelected(executionId);
+  };
+
+  /**
+   * Select every execution matching the filters, fetching the pages that aren't loaded yet
+   */
+  const handleSelectAll = async () => {
+    if (!hasNextPage) {
+      setSelectedIds(new Set(filteredExecutions.map(e => e.id)));
+      return;
+    }
+
+    setSelectingAll(true);
+    try {
+      const ids = new Set<string>();
+      for await (const execution of requireClient(client).iterateExecutions({
+        workflowId: id,
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        // Same window as the listed pages
+        startedAfter: executionPages?.pages[0]?.startedAfter,
+      })) {
+        ids.add(execution.id);
+      }
+      setSelectedIds(ids);
+    } catch (error) {
+      showErrorAlert(error);
+    } finally {
+      setSelectingAll(false);
+    }
+  };
+
+  const handleDeleteSelected = () => {
+    const executionIds = Array.from(selectedIds);
+    if (executionIds.length === 0) return;
+
+    showAlert(
+      t.deleteExecutions,
+      `${executionIds.length} ${t.selected}. ${t.deleteExecutionsConfirm}`,
+      'confirm',
+      () => deleteMutation.mutate(executionIds)
+    );
+  };
+
   const updateMutation = useMutation({
     mutationFn: (updates: { name?: string }) => {
       if (!workflow) throw new Error('Workflow not loaded');
-      return updateWorkflow(id!, workflow, updates);
+      return requireClient(client).updateWorkflow(id!, workflow, updates);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['workflow', id] });
-      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+      queryClient.invalidateQueries({ queryKey: [server?.id, 'workflow', id] });
+      queryClient.invalidateQueries({ queryKey: [server?.id, 'workflows'] });
       refetchWorkflow();
       setEditModalVisible(false);
       showAlert(t.save, t.workflowUpdated, 'success');
     },
     onError: error => {
-      showAlert(t.error, error instanceof Error ? error.message : 'No se pudo actualizar el workflow', 'error');
+      showErrorAlert(error);
     },
   });
 
@@ -183,7 +394,7 @@ export default function WorkflowDetail() {
     updateMutation.mutate({ name: editedName.trim() });
   };
 
-  if (workflowLoading) {
+  if (workflowLoading || serverLoading) {
     return (
       <View style={styles.centered}>
         <StatusBar barStyle="light-content" />
@@ -193,13 +404,23 @@ export default function WorkflowDetail() {
   }
 
   if (workflowError || !workflow) {
+    const loadError = workflowError ? describeError(workflowError, t) : undefined;
+
     return (
       <View style={styles.centered}>
         <Ionicons name="alert-circle-outline" size={64} color={THEME.error} />
         <Text style={styles.errorText}>No se pudo cargar el flujo</Text>
+        {workflowError && (
+          <Text style={styles.errorDetail}>{formatError(workflowError, t)}</Text>
+        )}
         <TouchableOpacity style={styles.retryButton} onPress={() => refetchWorkflow()}>
           <Text style={styles.retryButtonText}>Reintentar</Text>
         </TouchableOpacity>
+        {loadError && loadError.recovery !== 'retry' && (
+          <TouchableOpacity style={styles.recoveryLink} onPress={openServerSettings}>
+            <Text style={styles.recoveryLinkText}>{loadError.recoveryLabel}</Text>
+          </TouchableOpacity>
+        )}
       </View>
     );
   }
@@ -216,6 +437,9 @@ export default function WorkflowDetail() {
 
     const isSuccess = execution.status === 'success';
     const isError = execution.status === 'error';
+    const isRunning = execution.status === 'running';
+    const isStopping = stopMutation.isPending && stopMutation.variables === execution.id;
+    const isSelected = selectedIds.has(execution.id);
 
     let iconName: keyof typeof Ionicons.glyphMap = 'time-outline';
     let statusColor = THEME.textSecondary;
@@ -231,10 +455,21 @@ export default function WorkflowDetail() {
     return (
       <TouchableOpacity
         key={execution.id}
-        style={styles.executionRow}
-        onPress={() => router.push(`/execution/${execution.id}`)}
+        style={[styles.executionRow, isSelected && styles.executionRowSelected]}
+        onPress={() =>
+          selectionMode ? toggleSelected(execution.id) : router.push(`/execution/${execution.id}`)
+        }
+        onLongPress={() => handleLongPressExecution(execution.id)}
         activeOpacity={0.6}
       >
+        {selectionMode && (
+          <Ionicons
+            name={isSelected ? 'checkbox' : 'square-outline'}
+            size={22}
+            color={isSelected ? THEME.accent : THEME.textSecondary}
+            style={styles.selectionCheckbox}
+          />
+        )}
         <Ionicons name={iconName} size={24} color={statusColor} style={styles.executionIcon} />
         <View style={styles.executionInfo}>
           <Text style={styles.executionTitle}>
@@ -244,7 +479,22 @@ export default function WorkflowDetail() {
             {executionDate} • {duration}
           </Text>
         </View>
-        <Ionicons name="chevron-forward" size={20} color={THEME.textSecondary} />
+        {isRunning && !selectionMode && canStop && (
+          <TouchableOpacity
+            style={styles.stopButton}
+            onPress={() => handleStopExecution(execution.id)}
+            disabled={isStopping}
+          >
+            {isStopping ? (
+              <ActivityIndicator size="small" color={THEME.error} />
+            ) : (
+              <Ionicons name="stop-circle-outline" size={24} color={THEME.error} />
+            )}
+          </TouchableOpacity>
+        )}
+        {!selectionMode && (
+          <Ionicons name="chevron-forward" size={20} color={THEME.textSecondary} />
+        )}
       </TouchableOpacity>
     );
   };
@@ -276,6 +526,8 @@ export default function WorkflowDetail() {
       <ScrollView
         style={styles.content}
         contentContainerStyle={styles.scrollContent}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
         refreshControl={
           <RefreshControl
             refreshing={isRefetching}
@@ -366,13 +618,74 @@ export default function WorkflowDetail() {
           </View>
         </View>
 
+        {/* Schedule / Heartbeat */}
+        {heartbeat && (
+          <View style={styles.graphSection}>
+            <Text style={styles.sectionTitle}>{t.schedule}</Text>
+            <View style={styles.scheduleCard}>
+              {heartbeat.overdue && (
+                <View style={styles.overdueBanner}>
+                  <Ionicons name="alarm-outline" size={18} color={THEME.error} />
+                  <Text style={styles.overdueText}>{t.overdueHint}</Text>
+                </View>
+              )}
+              {heartbeat.schedules.map(schedule => (
+                <View key={schedule.nodeName} style={styles.scheduleNode}>
+                  <Text style={styles.scheduleNodeName}>{schedule.nodeName}</Text>
+                  {schedule.rules.map((rule, index) => (
+                    <Text key={index} style={styles.scheduleRule}>
+                      {describeScheduleRule(rule, t, language)}
+                    </Text>
+                  ))}
+                </View>
+              ))}
+              <View style={styles.scheduleRow}>
+                <Text style={styles.scheduleLabel}>{t.maxInterval}</Text>
+                <Text style={styles.scheduleValue}>{formatScheduleGap(heartbeat.maxGapMs)}</Text>
+              </View>
+              <View style={styles.scheduleRow}>
+                <Text style={styles.scheduleLabel}>{t.lastRun}</Text>
+                <Text style={styles.scheduleValue}>
+                  {heartbeat.lastRunAt
+                    ? formatDistanceToNow(heartbeat.lastRunAt, {
+                        addSuffix: true,
+                        locale: DATE_LOCALES[language],
+                      })
+                    : t.neverRan}
+                </Text>
+              </View>
+              <View style={styles.scheduleRow}>
+                <Text style={styles.scheduleLabel}>{t.expectedBy}</Text>
+                <Text
+                  style={[
+                    styles.scheduleValue,
+                    { color: heartbeat.overdue ? THEME.error : THEME.success },
+                  ]}
+                >
+                  {format(heartbeat.expectedBy, 'd MMM, HH:mm', { locale: DATE_LOCALES[language] })}
+                  {heartbeat.overdue ? '' : ` · ${t.onSchedule}`}
+                </Text>
+              </View>
+            </View>
+          </View>
+        )}
+
+        {/* Workflow Graph */}
+        {workflow.nodes && workflow.nodes.length > 0 && (
+          <View style={styles.graphSection}>
+            <Text style={styles.sectionTitle}>{t.workflowGraph}</Text>
+            <WorkflowGraph nodes={workflow.nodes} connections={workflow.connections} />
+            <Text style={styles.graphHint}>{t.graphHint}</Text>
+          </View>
+        )}
+
         {/* Executions List */}
         <View style={styles.executionsSection}>
           <Text style={styles.sectionTitle}>Historial de Ejecuciones</Text>
 
           {executionsLoading ? (
             <ActivityIndicator size="small" color={THEME.accent} style={{ marginTop: 20 }} />
-          ) : executions && executions.length > 0 ? (
+          ) : recentExecutions && recentExecutions.length > 0 ? (
             <>
               {/* Filter Section with Header */}
               <View style={styles.filterSection}>
@@ -384,7 +697,8 @@ export default function WorkflowDetail() {
                   </View>
                   <View style={styles.filterBadge}>
                     <Text style={styles.filterBadgeText}>
-                      {filteredExecutions.length} resultado
+                      {filteredExecutions.length}
+                      {hasNextPage ? '+' : ''} resultado
                       {filteredExecutions.length !== 1 ? 's' : ''}
                     </Text>
                   </View>
@@ -404,7 +718,6 @@ export default function WorkflowDetail() {
                       ]}
                       onPress={() => {
                         setStatusFilter('all');
-                        setCurrentPage(1);
                       }}
                     >
                       <Text
@@ -427,7 +740,7 @@ export default function WorkflowDetail() {
                             statusFilter === 'all' && styles.segmentedBadgeTextActive,
                           ]}
                         >
-                          {executions?.length || 0}
+                          {recentExecutions.length}
                         </Text>
                       </View>
                     </TouchableOpacity>
@@ -439,7 +752,6 @@ export default function WorkflowDetail() {
                       ]}
                       onPress={() => {
                         setStatusFilter('success');
-                        setCurrentPage(1);
                       }}
                     >
                       <Ionicons
@@ -484,7 +796,6 @@ export default function WorkflowDetail() {
                       ]}
                       onPress={() => {
                         setStatusFilter('error');
-                        setCurrentPage(1);
                       }}
                     >
                       <Ionicons
@@ -531,7 +842,6 @@ export default function WorkflowDetail() {
                         ]}
                         onPress={() => {
                           setStatusFilter('running');
-                          setCurrentPage(1);
                         }}
                       >
                         <Ionicons
@@ -582,7 +892,6 @@ export default function WorkflowDetail() {
                       style={[styles.timePill, timeFilter === 'all' && styles.timePillActive]}
                       onPress={() => {
                         setTimeFilter('all');
-                        setCurrentPage(1);
                       }}
                     >
                       <Ionicons
@@ -604,7 +913,6 @@ export default function WorkflowDetail() {
                       style={[styles.timePill, timeFilter === '24h' && styles.timePillActive]}
                       onPress={() => {
                         setTimeFilter('24h');
-                        setCurrentPage(1);
                       }}
                     >
                       <Text
@@ -621,7 +929,6 @@ export default function WorkflowDetail() {
                       style={[styles.timePill, timeFilter === '7d' && styles.timePillActive]}
                       onPress={() => {
                         setTimeFilter('7d');
-                        setCurrentPage(1);
                       }}
                     >
                       <Text
@@ -638,7 +945,6 @@ export default function WorkflowDetail() {
                       style={[styles.timePill, timeFilter === '30d' && styles.timePillActive]}
                       onPress={() => {
                         setTimeFilter('30d');
-                        setCurrentPage(1);
                       }}
                     >
                       <Text
@@ -654,86 +960,58 @@ export default function WorkflowDetail() {
                 </View>
               </View>
 
-              {filteredExecutions.length > 0 ? (
+              {filteredLoading ? (
+                <ActivityIndicator size="small" color={THEME.accent} style={{ marginTop: 20 }} />
+              ) : filteredExecutions.length > 0 ? (
                 <>
-                  <View style={styles.executionsList}>
-                    {filteredExecutions
-                      .slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE)
-                      .map(renderExecution)}
-                  </View>
-
-                  {/* Pagination Controls */}
-                  {filteredExecutions.length > ITEMS_PER_PAGE && (
-                    <View style={styles.paginationContainer}>
+                  {selectionMode && (
+                    <View style={styles.selectionBar}>
+                      <TouchableOpacity onPress={exitSelectionMode} style={styles.selectionBarButton}>
+                        <Ionicons name="close" size={20} color={THEME.textPrimary} />
+                      </TouchableOpacity>
+                      <Text style={styles.selectionBarText}>
+                        {selectedIds.size} {t.selected}
+                      </Text>
                       <TouchableOpacity
-                        style={[
-                          styles.paginationButton,
-                          currentPage === 1 && styles.paginationButtonDisabled,
-                        ]}
-                        onPress={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                        disabled={currentPage === 1}
+                        onPress={handleSelectAll}
+                        style={styles.selectionBarButton}
+                        disabled={selectingAll}
                       >
-                        <Ionicons
-                          name="chevron-back"
-                          size={20}
-                          color={currentPage === 1 ? THEME.textSecondary : THEME.textPrimary}
-                        />
-                        <Text
-                          style={[
-                            styles.paginationButtonText,
-                            currentPage === 1 && styles.paginationButtonTextDisabled,
-                          ]}
-                        >
-                          Anterior
-                        </Text>
+                        {selectingAll ? (
+                          <ActivityIndicator size="small" color={THEME.accent} />
+                        ) : (
+                          <Text style={styles.selectionBarAction}>{t.selectAll}</Text>
+                        )}
                       </TouchableOpacity>
-
-                      <View style={styles.paginationInfo}>
-                        <Text style={styles.paginationText}>
-                          Página {currentPage} de{' '}
-                          {Math.ceil(filteredExecutions.length / ITEMS_PER_PAGE)}
-                        </Text>
-                      </View>
-
                       <TouchableOpacity
-                        style={[
-                          styles.paginationButton,
-                          currentPage === Math.ceil(filteredExecutions.length / ITEMS_PER_PAGE) &&
-                            styles.paginationButtonDisabled,
-                        ]}
-                        onPress={() =>
-                          setCurrentPage(prev =>
-                            Math.min(
-                              Math.ceil(filteredExecutions.length / ITEMS_PER_PAGE),
-                              prev + 1
-                            )
-                          )
-                        }
-                        disabled={
-                          currentPage === Math.ceil(filteredExecutions.length / ITEMS_PER_PAGE)
-                        }
+                        onPress={handleDeleteSelected}
+                        style={styles.selectionBarButton}
+                        disabled={selectedIds.size === 0 || deleteMutation.isPending}
                       >
-                        <Text
-                          style={[
-                            styles.paginationButtonText,
-                            currentPage === Math.ceil(filteredExecutions.length / ITEMS_PER_PAGE) &&
-                              styles.paginationButtonTextDisabled,
-                          ]}
-                        >
-                          Siguiente
-                        </Text>
-                        <Ionicons
-                          name="chevron-forward"
-                          size={20}
-                          color={
-                            currentPage === Math.ceil(filteredExecutions.length / ITEMS_PER_PAGE)
-                              ? THEME.textSecondary
-                              : THEME.textPrimary
-                          }
-                        />
+                        {deleteMutation.isPending ? (
+                          <ActivityIndicator size="small" color={THEME.error} />
+                        ) : (
+                          <Ionicons
+                            name="trash-outline"
+                            size={20}
+                            color={selectedIds.size === 0 ? THEME.textSecondary : THEME.error}
+                          />
+                        )}
                       </TouchableOpacity>
                     </View>
                   )}
+
+                  <View style={styles.executionsList}>
+                    {filteredExecutions.map(renderExecution)}
+                  </View>
+
+                  {isFetchingNextPage && (
+                    <ActivityIndicator
+                      size="small"
+                      color={THEME.accent}
+                      style={styles.loadMoreIndicator}
+                    />
+                  )}
                 </>
               ) : (
                 <Text style={styles.emptyText}>
@@ -798,80 +1076,7 @@ export default function WorkflowDetail() {
         </View>
       </Modal>
 
-      {/* Custom Alert Modal */}
-      <Modal
-        visible={alertConfig.visible}
-        transparent
-        animationType="fade"
-        onRequestClose={hideAlert}
-      >
-        <View style={styles.alertOverlay}>
-          <View style={[
-            styles.alertContent,
-            alertConfig.type === 'success' && styles.alertContentSuccess,
-            alertConfig.type === 'error' && styles.alertContentError,
-          ]}>
-            {/* Icon */}
-            <View style={[
-              styles.alertIcon,
-              alertConfig.type === 'success' && styles.alertIconSuccess,
-              alertConfig.type === 'error' && styles.alertIconError,
-              alertConfig.type === 'confirm' && styles.alertIconConfirm,
-            ]}>
-              <Ionicons
-                name={
-                  alertConfig.type === 'success' ? 'checkmark-circle' :
-                  alertConfig.type === 'error' ? 'close-circle' :
-                  'help-circle'
-                }
-                size={40}
-                color="#FFF"
-              />
-            </View>
-
-            {/* Title */}
-            <Text style={styles.alertTitle}>{alertConfig.title}</Text>
-
-            {/* Message */}
-            <Text style={styles.alertMessage}>{alertConfig.message}</Text>
-
-            {/* Buttons */}
-            <View style={styles.alertButtons}>
-              {alertConfig.type === 'confirm' ? (
-                <>
-                  <TouchableOpacity
-                    style={[styles.alertButton, styles.alertButtonCancel]}
-                    onPress={hideAlert}
-                  >
-                    <Text style={styles.alertButtonTextCancel}>{t.cancel}</Text>
-                  </TouchableOpacity>
-                  <TouchableOpacity
-                    style={[styles.alertButton, styles.alertButtonConfirm]}
-                    onPress={() => {
-                      hideAlert();
-                      alertConfig.onConfirm?.();
-                    }}
-                  >
-                    <Text style={styles.alertButtonTextConfirm}>Confirmar</Text>
-                  </TouchableOpacity>
-                </>
-              ) : (
-                <TouchableOpacity
-                  style={[
-                    styles.alertButton,
-                    styles.alertButtonSingle,
-                    alertConfig.type === 'success' && styles.alertButtonSuccess,
-                    alertConfig.type === 'error' && styles.alertButtonError,
-                  ]}
-                  onPress={hideAlert}
-                >
-                  <Text style={styles.alertButtonTextSingle}>OK</Text>
-                </TouchableOpacity>
-              )}
-            </View>
-          </View>
-        </View>
-      </Modal>
+      <AlertModal config={alertConfig} onClose={hideAlert} />
     </View>
   );
 }
@@ -1053,6 +1258,64 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
+  graphSection: {
+    paddingHorizontal: 16,
+    marginBottom: 32,
+  },
+  scheduleCard: {
+    backgroundColor: THEME.surface,
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  overdueBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 82, 82, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 82, 82, 0.3)',
+  },
+  overdueText: {
+    flex: 1,
+    color: THEME.error,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  scheduleNode: {
+    gap: 4,
+  },
+  scheduleNodeName: {
+    color: THEME.textPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scheduleRule: {
+    color: THEME.textSecondary,
+    fontSize: 13,
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  scheduleLabel: {
+    color: THEME.textSecondary,
+    fontSize: 13,
+  },
+  scheduleValue: {
+    color: THEME.textPrimary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  graphHint: {
+    color: THEME.textSecondary,
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 8,
+  },
   executionsSection: {
     paddingHorizontal: 16,
   },
@@ -1084,6 +1347,40 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginBottom: 4,
   },
+  executionRowSelected: {
+    backgroundColor: 'rgba(234, 75, 113, 0.08)',
+  },
+  selectionCheckbox: {
+    marginRight: 12,
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: THEME.surfaceHighlight,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    marginBottom: 12,
+    gap: 8,
+  },
+  selectionBarButton: {
+    padding: 6,
+  },
+  selectionBarText: {
+    flex: 1,
+    color: THEME.textPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  selectionBarAction: {
+    color: THEME.accent,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  stopButton: {
+    padding: 4,
+    marginRight: 8,
+  },
   executionDate: {
     color: THEME.textSecondary,
     fontSize: 13,
@@ -1106,42 +1403,24 @@ const styles = StyleSheet.create({
   retryButtonText: {
     color: THEME.textPrimary,
   },
-  paginationContainer: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginTop: 24,
-    paddingTop: 16,
-    borderTopWidth: 1,
-    borderTopColor: 'rgba(255,255,255,0.1)',
-  },
-  paginationButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 6,
-    paddingVertical: 8,
-    paddingHorizontal: 12,
-    borderRadius: 8,
-    backgroundColor: 'rgba(255,255,255,0.05)',
-  },
-  paginationButtonDisabled: {
-    opacity: 0.3,
-  },
-  paginationButtonText: {
-    color: THEME.textPrimary,
-    fontSize: 14,
-    fontWeight: '600',
-  },
-  paginationButtonTextDisabled: {
+  errorDetail: {
     color: THEME.textSecondary,
+    fontSize: 13,
+    textAlign: 'center',
+    paddingHorizontal: 32,
+    marginBottom: 16,
   },
-  paginationInfo: {
-    paddingHorizontal: 16,
+  recoveryLink: {
+    padding: 8,
+    marginTop: 8,
   },
-  paginationText: {
+  recoveryLinkText: {
     color: THEME.textSecondary,
     fontSize: 13,
-    fontWeight: '500',
+    fontWeight: '600',
+  },
+  loadMoreIndicator: {
+    marginTop: 16,
   },
   // New Filter Styles
   filterSection: {
@@ -1363,105 +1642,4 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
-  // Custom Alert Styles
-  alertOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.85)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 32,
-  },
-  alertContent: {
-    width: '100%',
-    maxWidth: 340,
-    backgroundColor: THEME.surface,
-    borderRadius: 20,
-    padding: 28,
-    alignItems: 'center',
-    borderWidth: 1,
-    borderColor: 'rgba(255,255,255,0.1)',
-  },
-  alertContentSuccess: {
-    borderColor: 'rgba(34,197,94,0.3)',
-  },
-  alertContentError: {
-    borderColor: 'rgba(255,82,82,0.3)',
-  },
-  alertIcon: {
-    width: 64,
-    height: 64,
-    borderRadius: 32,
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginBottom: 16,
-  },
-  alertIconSuccess: {
-    backgroundColor: THEME.success,
-  },
-  alertIconError: {
-    backgroundColor: THEME.error,
-  },
-  alertIconConfirm: {
-    backgroundColor: THEME.accent,
-  },
-  alertTitle: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: THEME.textPrimary,
-    marginBottom: 8,
-    textAlign: 'center',
-  },
-  alertMessage: {
-    fontSize: 15,
-    color: THEME.textSecondary,
-    textAlign: 'center',
-    marginBottom: 24,
-    lineHeight: 22,
-  },
-  alertButtons: {
-    flexDirection: 'row',
-    gap: 12,
-    width: '100%',
-  },
-  alertButton: {
-    flex: 1,
-    paddingVertical: 12,
-    paddingHorizontal: 16,
-    borderRadius: 10,
-    alignItems: 'center',
-    justifyContent: 'center',
-    minHeight: 48,
-  },
-  alertButtonCancel: {
-    backgroundColor: 'transparent',
-    borderWidth: 1,
-    borderColor: 'rgba(255,255,255,0.3)',
-  },
-  alertButtonConfirm: {
-    backgroundColor: THEME.accent,
-  },
-  alertButtonSingle: {
-    flex: 1,
-  },
-  alertButtonSuccess: {
-    backgroundColor: THEME.success,
-  },
-  alertButtonError: {
-    backgroundColor: THEME.error,
-  },
-  alertButtonTextCancel: {
-    color: THEME.textPrimary,
-    fontSize: 15,
-    fontWeight: '600',
-  },
-  alertButtonTextConfirm: {
-    color: '#FFFFFF',
-    fontSize: 15,
-    fontWeight: '600',
-  },
-  alertButtonTextSingle: {
-    color: '#FFFFFF',
-    fontSize: 15,
-    fontWeight: '600',
-  },
 });
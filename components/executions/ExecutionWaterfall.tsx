@@ -0,0 +1,184 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { useLanguage } from '@/context/LanguageContext';
+import { formatDuration, getExecutionWaterfall } from '@/services/execution-data';
+import { N8nExecution } from '@/types/n8n';
+
+const THEME = {
+  surfaceHighlight: '#282828',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#B3B3B3',
+  accent: '#EA4B71', // n8n Primary
+  success: '#22c55e',
+  error: '#FF5252',
+};
+
+// Bars shorter than this are still drawn so instant nodes stay visible
+const MIN_BAR_WIDTH_PERCENT = 0.8;
+
+/**
+ * Gantt-style view of where time went in an execution
+ * Each node run is a bar positioned relative to the start of the run
+ */
+export function ExecutionWaterfall({ execution }: { execution: N8nExecution }) {
+  const { t } = useLanguage();
+  const { totalDuration, bars, slowest } = getExecutionWaterfall(execution);
+
+  if (bars.length === 0) {
+    return null;
+  }
+
+  const slowestKeys = new Set(slowest.map(bar => `${bar.nodeName}-${bar.runIndex}`));
+  const toPercent = (ms: number) => (totalDuration > 0 ? (ms / totalDuration) * 100 : 0);
+
+  return (
+    <View>
+      <View style={styles.summaryRow}>
+        <Text style={styles.summaryLabel}>{t.totalDuration}</Text>
+        <Text style={styles.summaryValue}>{formatDuration(totalDuration)}</Text>
+      </View>
+
+      {bars.map(bar => {
+        const key = `${bar.nodeName}-${bar.runIndex}`;
+        const isSlow = slowestKeys.has(key);
+        const color =
+          bar.status === 'error' ? THEME.error : isSlow ? THEME.accent : THEME.success;
+
+        return (
+          <View key={key} style={styles.barRow}>
+            <Text style={styles.barLabel} numberOfLines={1}>
+              {bar.nodeName}
+            </Text>
+            <View style={styles.track}>
+              <View
+                style={[
+                  styles.bar,
+                  {
+                    left: `${toPercent(bar.offset)}%`,
+                    width: `${Math.max(toPercent(bar.duration), MIN_BAR_WIDTH_PERCENT)}%`,
+                    backgroundColor: color,
+                  },
+                ]}
+              />
+            </View>
+          </View>
+        );
+      })}
+
+      {/* Axis */}
+      <View style={styles.axisRow}>
+        <View style={styles.barLabel} />
+        <View style={styles.axis}>
+          <Text style={styles.axisText}>0</Text>
+          <Text style={styles.axisText}>{formatDuration(totalDuration / 2)}</Text>
+          <Text style={styles.axisText}>{formatDuration(totalDuration)}</Text>
+        </View>
+      </View>
+
+      {slowest.length > 0 && (
+        <View style={styles.slowestContainer}>
+          <Text style={styles.slowestTitle}>{t.slowestNodes}</Text>
+          {slowest.map((bar, index) => (
+            <View key={`${bar.nodeName}-${bar.runIndex}`} style={styles.slowestRow}>
+              <Text style={styles.slowestRank}>{index + 1}</Text>
+              <Text style={styles.slowestName} numberOfLines={1}>
+                {bar.nodeName}
+              </Text>
+              <Text style={styles.slowestDuration}>
+                {formatDuration(bar.duration)} · {Math.round(toPercent(bar.duration))}%
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  summaryLabel: {
+    color: THEME.textSecondary,
+    fontSize: 14,
+  },
+  summaryValue: {
+    color: THEME.textPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  barRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  barLabel: {
+    width: 110,
+    color: THEME.textSecondary,
+    fontSize: 12,
+    marginRight: 8,
+  },
+  track: {
+    flex: 1,
+    height: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  bar: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    borderRadius: 3,
+  },
+  axisRow: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  axis: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: 'rgba(255,255,255,0.2)',
+    paddingTop: 4,
+  },
+  axisText: {
+    color: THEME.textSecondary,
+    fontSize: 10,
+  },
+  slowestContainer: {
+    marginTop: 20,
+    gap: 8,
+  },
+  slowestTitle: {
+    color: THEME.textPrimary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  slowestRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: THEME.surfaceHighlight,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  slowestRank: {
+    color: THEME.accent,
+    fontWeight: 'bold',
+    width: 20,
+  },
+  slowestName: {
+    flex: 1,
+    color: THEME.textPrimary,
+    fontSize: 13,
+  },
+  slowestDuration: {
+    color: THEME.textSecondary,
+    fontSize: 12,
+  },
+});
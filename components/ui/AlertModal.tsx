@@ -0,0 +1,219 @@
+import { useLanguage } from '@/context/LanguageContext';
+import { Ionicons } from '@expo/vector-icons';
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+const THEME = {
+  surface: '#181818',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#B3B3B3',
+  accent: '#EA4B71',
+  success: '#22c55e',
+  error: '#FF5252',
+};
+
+export type AlertType = 'success' | 'error' | 'confirm';
+
+export interface AlertConfig {
+  visible: boolean;
+  title: string;
+  message: string;
+  type: AlertType;
+  onConfirm?: () => void;
+  // Error alerts that have a fix elsewhere (e.g. the server settings) get a second button
+  recoveryLabel?: string;
+  onRecovery?: () => void;
+}
+
+export const HIDDEN_ALERT: AlertConfig = {
+  visible: false,
+  title: '',
+  message: '',
+  type: 'success',
+};
+
+const ALERT_ICONS: Record<AlertType, keyof typeof Ionicons.glyphMap> = {
+  success: 'checkmark-circle',
+  error: 'close-circle',
+  confirm: 'help-circle',
+};
+
+type AlertModalProps = {
+  config: AlertConfig;
+  onClose: () => void;
+};
+
+/**
+ * Themed replacement for Alert.alert: a notice with OK, a confirmation with
+ * cancel/confirm, or an error with a recovery action
+ */
+export function AlertModal({ config, onClose }: AlertModalProps) {
+  const { t } = useLanguage();
+
+  return (
+    <Modal visible={config.visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View
+          style={[
+            styles.content,
+            config.type === 'success' && styles.contentSuccess,
+            config.type === 'error' && styles.contentError,
+          ]}
+        >
+          <View
+            style={[
+              styles.icon,
+              config.type === 'success' && styles.iconSuccess,
+              config.type === 'error' && styles.iconError,
+              config.type === 'confirm' && styles.iconConfirm,
+            ]}
+          >
+            <Ionicons name={ALERT_ICONS[config.type]} size={40} color="#FFF" />
+          </View>
+
+          <Text style={styles.title}>{config.title}</Text>
+          <Text style={styles.message}>{config.message}</Text>
+
+          <View style={styles.buttons}>
+            {config.type === 'confirm' ? (
+              <>
+                <TouchableOpacity style={[styles.button, styles.buttonCancel]} onPress={onClose}>
+                  <Text style={styles.buttonTextCancel}>{t.cancel}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.buttonConfirm]}
+                  onPress={() => {
+                    onClose();
+                    config.onConfirm?.();
+                  }}
+                >
+                  <Text style={styles.buttonText}>{t.confirm}</Text>
+                </TouchableOpacity>
+              </>
+            ) : config.recoveryLabel && config.onRecovery ? (
+              <>
+                <TouchableOpacity style={[styles.button, styles.buttonCancel]} onPress={onClose}>
+                  <Text style={styles.buttonTextCancel}>OK</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.buttonError]}
+                  onPress={() => {
+                    onClose();
+                    config.onRecovery?.();
+                  }}
+                >
+                  <Text style={styles.buttonText}>{config.recoveryLabel}</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  config.type === 'success' && styles.buttonSuccess,
+                  config.type === 'error' && styles.buttonError,
+                ]}
+                onPress={onClose}
+              >
+                <Text style={styles.buttonText}>OK</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  content: {
+    width: '100%',
+    maxWidth: 340,
+    backgroundColor: THEME.surface,
+    borderRadius: 20,
+    padding: 28,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  contentSuccess: {
+    borderColor: 'rgba(34,197,94,0.3)',
+  },
+  contentError: {
+    borderColor: 'rgba(255,82,82,0.3)',
+  },
+  icon: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  iconSuccess: {
+    backgroundColor: THEME.success,
+  },
+  iconError: {
+    backgroundColor: THEME.error,
+  },
+  iconConfirm: {
+    backgroundColor: THEME.accent,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: THEME.textPrimary,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 15,
+    color: THEME.textSecondary,
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    width: '100%',
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 48,
+  },
+  buttonCancel: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  buttonConfirm: {
+    backgroundColor: THEME.accent,
+  },
+  buttonSuccess: {
+    backgroundColor: THEME.success,
+  },
+  buttonError: {
+    backgroundColor: THEME.error,
+  },
+  buttonTextCancel: {
+    color: THEME.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,193 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+const THEME = {
+  textPrimary: '#FFFFFF',
+  textSecondary: '#B3B3B3',
+  accent: '#EA4B71',
+  string: '#A5D6A7',
+  number: '#90CAF9',
+  boolean: '#FFCC80',
+  null: '#9E9E9E',
+  highlight: 'rgba(234, 75, 113, 0.25)',
+};
+
+type JsonTreeProps = {
+  data: unknown;
+  label?: string;
+  search?: string;
+  // Levels expanded when not searching
+  defaultExpandDepth?: number;
+};
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null;
+}
+
+function includesQuery(text: string, query: string): boolean {
+  return text.toLowerCase().includes(query);
+}
+
+/**
+ * Whether a key, a primitive value or anything nested below matches the query
+ */
+function matchesSearch(key: string, value: unknown, query: string): boolean {
+  if (includesQuery(key, query)) return true;
+  if (isContainer(value)) {
+    return Object.entries(value).some(([childKey, child]) => matchesSearch(childKey, child, query));
+  }
+  return includesQuery(String(value), query);
+}
+
+/**
+ * Whether any key or value in the data matches a search string
+ */
+export function jsonMatchesSearch(data: unknown, search: string): boolean {
+  const query = search.trim().toLowerCase();
+  if (!query) return true;
+  if (isContainer(data)) {
+    return Object.entries(data).some(([key, value]) => matchesSearch(key, value, query));
+  }
+  return includesQuery(String(data), query);
+}
+
+function formatPrimitive(value: unknown): { text: string; color: string } {
+  if (value === null || value === undefined) return { text: String(value), color: THEME.null };
+  if (typeof value === 'string') return { text: `"${value}"`, color: THEME.string };
+  if (typeof value === 'number') return { text: String(value), color: THEME.number };
+  if (typeof value === 'boolean') return { text: String(value), color: THEME.boolean };
+  return { text: String(value), color: THEME.textPrimary };
+}
+
+function JsonNode({
+  name,
+  value,
+  depth,
+  query,
+  defaultExpandDepth,
+  showAll,
+}: {
+  name: string;
+  value: unknown;
+  depth: number;
+  query: string;
+  defaultExpandDepth: number;
+  // Set once an ancestor key matched: its whole subtree stays visible
+  showAll: boolean;
+}) {
+  const [expanded, setExpanded] = useState<boolean | null>(null);
+  const keyMatches = !!query && includesQuery(name, query);
+
+  if (!isContainer(value)) {
+    const { text, color } = formatPrimitive(value);
+    const valueMatches = !!query && includesQuery(String(value), query);
+
+    return (
+      <View style={[styles.row, { paddingLeft: depth * 14 }]}>
+        <Text style={[styles.key, keyMatches && styles.highlight]}>{name}: </Text>
+        <Text style={[styles.value, { color }, valueMatches && styles.highlight]} selectable>
+          {text}
+        </Text>
+      </View>
+    );
+  }
+
+  const entries = Object.entries(value);
+  const isArray = Array.isArray(value);
+  const isOpen = expanded ?? (query ? true : depth < defaultExpandDepth);
+  const visibleEntries =
+    query && !showAll && !keyMatches
+      ? entries.filter(([childKey, child]) => matchesSearch(childKey, child, query))
+      : entries;
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={[styles.row, { paddingLeft: depth * 14 }]}
+        onPress={() => setExpanded(!isOpen)}
+        activeOpacity={0.6}
+      >
+        <Ionicons
+          name={isOpen ? 'chevron-down' : 'chevron-forward'}
+          size={12}
+          color={THEME.textSecondary}
+          style={styles.chevron}
+        />
+        <Text style={[styles.key, keyMatches && styles.highlight]}>{name}</Text>
+        <Text style={styles.summary}>
+          {isArray ? ` [${entries.length}]` : ` {${entries.length}}`}
+        </Text>
+      </TouchableOpacity>
+
+      {isOpen &&
+        visibleEntries.map(([childKey, child]) => (
+          <JsonNode
+            key={childKey}
+            name={childKey}
+            value={child}
+            depth={depth + 1}
+            query={query}
+            defaultExpandDepth={defaultExpandDepth}
+            showAll={showAll || keyMatches}
+          />
+        ))}
+    </View>
+  );
+}
+
+/**
+ * Collapsible JSON viewer
+ * With a search query, only branches whose keys or values match are shown (expanded)
+ */
+export function JsonTree({ data, label = 'json', search = '', defaultExpandDepth = 1 }: JsonTreeProps) {
+  const query = search.trim().toLowerCase();
+
+  if (query && !matchesSearch(label, data, query)) {
+    return null;
+  }
+
+  return (
+    <JsonNode
+      name={label}
+      value={data}
+      depth={0}
+      query={query}
+      defaultExpandDepth={defaultExpandDepth}
+      showAll={false}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    flexWrap: 'wrap',
+    paddingVertical: 2,
+  },
+  chevron: {
+    marginTop: 3,
+    marginRight: 4,
+  },
+  key: {
+    color: THEME.textSecondary,
+    fontFamily: 'Courier',
+    fontSize: 12,
+  },
+  value: {
+    flexShrink: 1,
+    fontFamily: 'Courier',
+    fontSize: 12,
+  },
+  summary: {
+    color: THEME.textSecondary,
+    fontFamily: 'Courier',
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  highlight: {
+    backgroundColor: THEME.highlight,
+    color: THEME.textPrimary,
+  },
+});
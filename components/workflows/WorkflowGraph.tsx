@@ -0,0 +1,353 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { LayoutChangeEvent, StyleSheet, Text, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+
+import {
+  computeGraphLayout,
+  edgeOutputKey,
+  GraphEdge,
+  GraphOverlay,
+  GraphPoint,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+} from '@/services/workflow-graph';
+import { N8nConnections, N8nNode, N8nNodeExecutionStatus } from '@/types/n8n';
+
+const THEME = {
+  background: '#121212',
+  surface: '#181818',
+  surfaceHighlight: '#282828',
+  textPrimary: '#FFFFFF',
+  textSecondary: '#B3B3B3',
+  accent: '#EA4B71', // n8n Primary
+  success: '#22c55e',
+  error: '#FF5252',
+  warning: '#f59e0b',
+};
+
+const CANVAS_HEIGHT = 320;
+const EDGE_THICKNESS = 2;
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 3;
+const EDGE_LABEL_WIDTH = 40;
+// The canvas sits in scrolling screens: a plain drag scrolls the page, a held one pans
+const PAN_LONG_PRESS_MS = 250;
+
+type WorkflowGraphProps = {
+  nodes: N8nNode[];
+  connections?: N8nConnections;
+  // Execution results: executed nodes colored by status, item counts on edges, the rest dimmed
+  overlay?: GraphOverlay;
+  height?: number;
+};
+
+function clamp(value: number, min: number, max: number) {
+  'worklet';
+  return Math.min(Math.max(value, min), max);
+}
+
+function isTriggerNode(node: N8nNode): boolean {
+  return /trigger|webhook/i.test(node.type);
+}
+
+function getStatusColor(status: N8nNodeExecutionStatus): string {
+  switch (status) {
+    case 'success':
+      return THEME.success;
+    case 'error':
+    case 'crashed':
+      return THEME.error;
+    case 'running':
+    case 'waiting':
+      return THEME.warning;
+    default:
+      return THEME.textSecondary;
+  }
+}
+
+/**
+ * Axis-aligned segments of an edge route, drawn as thin views
+ */
+function EdgeSegments({ edge, color }: { edge: GraphEdge; color: string }) {
+  const segments: [GraphPoint, GraphPoint][] = edge.points
+    .slice(1)
+    .map((point, index) => [edge.points[index], point]);
+
+  return (
+    <>
+      {segments.map(([a, b], index) => {
+        const horizontal = a.y === b.y;
+        return (
+          <View
+            key={index}
+            style={[
+              styles.edge,
+              { backgroundColor: color },
+              horizontal
+                ? {
+                    left: Math.min(a.x, b.x),
+                    top: a.y - EDGE_THICKNESS / 2,
+                    width: Math.abs(b.x - a.x) + EDGE_THICKNESS,
+                    height: EDGE_THICKNESS,
+                  }
+                : {
+                    left: a.x - EDGE_THICKNESS / 2,
+                    top: Math.min(a.y, b.y),
+                    width: EDGE_THICKNESS,
+                    height: Math.abs(b.y - a.y) + EDGE_THICKNESS,
+                  },
+            ]}
+          />
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Read-only workflow canvas
+ * Nodes are drawn at their n8n positions; pinch to zoom, hold and drag to pan, double tap to fit
+ */
+export function WorkflowGraph({
+  nodes,
+  connections,
+  overlay,
+  height = CANVAS_HEIGHT,
+}: WorkflowGraphProps) {
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const layout = computeGraphLayout(nodes, connections);
+
+  // Start zoomed out so the whole workflow is visible
+  const fitScale =
+    layout.width > 0 && viewportWidth > 0
+      ? clamp(Math.min(viewportWidth / layout.width, height / layout.height), MIN_SCALE, 1)
+      : 1;
+
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    setViewportWidth(event.nativeEvent.layout.width);
+  };
+
+  const pan = Gesture.Pan()
+    .activateAfterLongPress(PAN_LONG_PRESS_MS)
+    .onUpdate(event => {
+      translateX.value = savedTranslateX.value + event.translationX;
+      translateY.value = savedTranslateY.value + event.translationY;
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const pinch = Gesture.Pinch()
+    .onUpdate(event => {
+      scale.value = clamp(savedScale.value * event.scale, MIN_SCALE / fitScale, MAX_SCALE);
+    })
+    .onEnd(() => {
+      savedScale.value = scale.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      scale.value = withTiming(1);
+      translateX.value = withTiming(0);
+      translateY.value = withTiming(0);
+      savedScale.value = 1;
+      savedTranslateX.value = 0;
+      savedTranslateY.value = 0;
+    });
+
+  const gesture = Gesture.Simultaneous(pan, pinch, doubleTap);
+
+  const canvasStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value * fitScale },
+    ],
+  }));
+
+  if (layout.nodes.length === 0) {
+    return null;
+  }
+
+  // Center the content in the viewport, scaling happens around the content's center
+  const offsetLeft = (viewportWidth - layout.width) / 2;
+  const offsetTop = (height - layout.height) / 2;
+
+  // Items that left the source through this edge's output, undefined when not executed
+  const getEdgeItems = (edge: GraphEdge) =>
+    overlay && edge.type === 'main'
+      ? overlay.outputs[edgeOutputKey(edge.from, edge.outputIndex)]
+      : undefined;
+
+  const getEdgeColor = (edge: GraphEdge) => {
+    if (overlay) {
+      const items = getEdgeItems(edge);
+      return items && overlay.nodes[edge.to]
+        ? 'rgba(34, 197, 94, 0.7)'
+        : 'rgba(255,255,255,0.08)';
+    }
+    return edge.type === 'main' ? 'rgba(255,255,255,0.35)' : 'rgba(255,255,255,0.15)';
+  };
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <View style={[styles.viewport, { height }]} onLayout={onLayout}>
+        {viewportWidth > 0 && (
+          <Animated.View
+            style={[
+              styles.canvas,
+              { width: layout.width, height: layout.height, left: offsetLeft, top: offsetTop },
+              canvasStyle,
+            ]}
+          >
+            {layout.edges.map(edge => (
+              <EdgeSegments
+                key={`${edge.from}-${edge.type}-${edge.outputIndex}-${edge.to}`}
+                edge={edge}
+                color={getEdgeColor(edge)}
+              />
+            ))}
+
+            {layout.nodes.map(({ node, x, y }) => {
+              const result = overlay?.nodes[node.name];
+              const isErrorNode = overlay?.errorNode === node.name;
+              const dimmed = (overlay && !result) || node.disabled;
+
+              return (
+                <View
+                  key={node.id ?? node.name}
+                  style={[
+                    styles.node,
+                    { left: x, top: y },
+                    isTriggerNode(node) && styles.nodeTrigger,
+                    result && { borderColor: getStatusColor(result.status), borderWidth: 2 },
+                    isErrorNode && styles.nodeError,
+                    dimmed && styles.nodeDimmed,
+                  ]}
+                >
+                  {isTriggerNode(node) && (
+                    <Ionicons name="flash" size={12} color={THEME.accent} style={styles.triggerIcon} />
+                  )}
+                  {isErrorNode && (
+                    <Ionicons name="alert-circle" size={16} color={THEME.error} style={styles.errorIcon} />
+                  )}
+                  <Text style={styles.nodeName} numberOfLines={2}>
+                    {node.name}
+                  </Text>
+                </View>
+              );
+            })}
+
+            {/* Edge labels go last so they sit above nodes and lines */}
+            {overlay &&
+              layout.edges.map(edge => {
+                const items = getEdgeItems(edge);
+                if (!items || !overlay.nodes[edge.to]) return null;
+
+                return (
+                  <View
+                    key={`label-${edge.from}-${edge.outputIndex}-${edge.to}`}
+                    style={[
+                      styles.edgeLabel,
+                      { left: edge.labelPoint.x - EDGE_LABEL_WIDTH / 2, top: edge.labelPoint.y - 9 },
+                    ]}
+                  >
+                    <Text style={styles.edgeLabelText} numberOfLines={1}>
+                      {items}
+                    </Text>
+                  </View>
+                );
+              })}
+          </Animated.View>
+        )}
+      </View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  viewport: {
+    backgroundColor: THEME.background,
+    borderRadius: 12,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  canvas: {
+    position: 'absolute',
+  },
+  edge: {
+    position: 'absolute',
+    borderRadius: EDGE_THICKNESS / 2,
+  },
+  node: {
+    position: 'absolute',
+    width: NODE_WIDTH,
+    height: NODE_HEIGHT,
+    backgroundColor: THEME.surfaceHighlight,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 6,
+  },
+  nodeTrigger: {
+    borderColor: THEME.accent,
+    borderTopLeftRadius: 24,
+    borderBottomLeftRadius: 24,
+  },
+  nodeDimmed: {
+    opacity: 0.35,
+  },
+  nodeError: {
+    borderColor: THEME.error,
+    borderWidth: 3,
+    backgroundColor: 'rgba(255, 82, 82, 0.15)',
+  },
+  errorIcon: {
+    position: 'absolute',
+    top: -8,
+    right: -8,
+    backgroundColor: THEME.background,
+    borderRadius: 8,
+  },
+  edgeLabel: {
+    position: 'absolute',
+    width: EDGE_LABEL_WIDTH,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: THEME.surface,
+    borderWidth: 1,
+    borderColor: 'rgba(34, 197, 94, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  edgeLabelText: {
+    color: THEME.textPrimary,
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  triggerIcon: {
+    position: 'absolute',
+    top: 4,
+    left: 8,
+  },
+  nodeName: {
+    color: THEME.textPrimary,
+    fontSize: 11,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
@@ -12,16 +12,20 @@ type LanguageContextType = {
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
+/**
+ * Read the saved language outside of React (e.g. background tasks)
+ */
+export async function getSavedLanguage(): Promise<Language> {
+  const lang = await SecureStore.getItemAsync(LANGUAGE_KEY);
+  return lang === 'en' ? 'en' : 'es';
+}
+
 export function LanguageProvider({ children }: { children: React.ReactNode }) {
   const [language, setLanguageState] = useState<Language>('es');
 
   useEffect(() => {
     // Load language on startup
-    SecureStore.getItemAsync(LANGUAGE_KEY).then((lang) => {
-      if (lang === 'en' || lang === 'es') {
-        setLanguageState(lang);
-      }
-    });
+    getSavedLanguage().then(setLanguageState);
   }, []);
 
   const setLanguage = async (lang: Language) => {
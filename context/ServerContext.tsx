@@ -0,0 +1,118 @@
+import { detectCapabilities, needsCapabilityCheck } from '@/services/capabilities';
+import { createLogger } from '@/services/logger';
+import { createN8nClient, isSameConnection, N8nClient } from '@/services/n8n-api';
+import { getActiveServer, saveServerCapabilities, setActiveServerId } from '@/services/storage';
+import { N8nServer } from '@/types/n8n';
+import { useQueryClient } from '@tanstack/react-query';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+
+type ServerContextType = {
+  server: N8nServer | null;
+  // API client bound to the active server, null until it's loaded or when there are no servers
+  client: N8nClient | null;
+  loading: boolean;
+  // Re-read the active server after servers were added, edited or removed
+  reloadServer: () => Promise<void>;
+  switchServer: (id: string) => Promise<void>;
+};
+
+const ServerContext = createContext<ServerContextType | undefined>(undefined);
+
+const log = createLogger('server');
+
+/**
+ * Query keys start with the server ID, so each server's cache lives under its own prefix
+ */
+export function ServerProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const [server, setServer] = useState<N8nServer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const serverRef = useRef<N8nServer | null>(null);
+  // Server whose capabilities are being probed, so reloads don't start a second probe
+  const probingRef = useRef<string | null>(null);
+
+  /**
+   * Probe the server in the background and attach the profile once it's in
+   */
+  const checkCapabilities = useCallback(async (target: N8nServer) => {
+    if (probingRef.current === target.id) return;
+    probingRef.current = target.id;
+
+    try {
+      const capabilities = await detectCapabilities(createN8nClient(target));
+      // Nothing answered, the server is probably down: try again on the next load
+      if (Object.values(capabilities.features).every(support => support === 'unknown')) return;
+      await saveServerCapabilities(target.id, capabilities);
+
+      // Only if nothing changed while probing
+      const current = serverRef.current;
+      if (current?.id === target.id && isSameConnection(current, target)) {
+        const next = { ...current, capabilities };
+        serverRef.current = next;
+        setServer(next);
+      }
+    } catch (error) {
+      log.warn('Could not save server capabilities', error);
+    } finally {
+      probingRef.current = null;
+    }
+  }, []);
+
+  const reloadServer = useCallback(async () => {
+    const next = await getActiveServer();
+    const previous = serverRef.current;
+
+    // Drop the cache of a server that is no longer active or whose connection changed
+    if (previous && (previous.id !== next?.id || !isSameConnection(previous, next))) {
+      await queryClient.cancelQueries({ queryKey: [previous.id] });
+      queryClient.removeQueries({ queryKey: [previous.id] });
+    }
+
+    serverRef.current = next;
+    setServer(next);
+    setLoading(false);
+
+    if (next && needsCapabilityCheck(next)) {
+      checkCapabilities(next);
+    }
+  }, [queryClient, checkCapabilities]);
+
+  const switchServer = useCallback(
+    async (id: string) => {
+      await setActiveServerId(id);
+      await reloadServer();
+    },
+    [reloadServer]
+  );
+
+  useEffect(() => {
+    reloadServer();
+  }, [reloadServer]);
+
+  const client = useMemo(() => (server ? createN8nClient(server) : null), [server]);
+
+  return (
+    <ServerContext.Provider value={{ server, client, loading, reloadServer, switchServer }}>
+      {children}
+    </ServerContext.Provider>
+  );
+}
+
+/**
+ * The client a query or mutation runs with. They only run once a server is loaded
+ * (queries are disabled until then), so a missing one is a bug rather than a user error
+ */
+export function requireClient(client: N8nClient | null): N8nClient {
+  if (!client) {
+    throw new Error('No active n8n server');
+  }
+  return client;
+}
+
+export function useServer() {
+  const context = useContext(ServerContext);
+  if (context === undefined) {
+    throw new Error('useServer must be used within a ServerProvider');
+  }
+  return context;
+}
@@ -0,0 +1,121 @@
+import { N8nExecution, N8nServer } from '@/types/n8n';
+import {
+  checkServersForFailures,
+  diffFailures,
+  FAILURE_PAGE_SIZE,
+  FailureMonitorApi,
+  MAX_FAILURE_PAGES,
+} from '../failure-monitor';
+
+const server = (id: string): N8nServer => ({
+  id,
+  name: `Server ${id}`,
+  serverUrl: `https://${id}.example.com`,
+  apiKey: 'key',
+});
+
+const execution = (id: number): N8nExecution =>
+  ({
+    id: String(id),
+    workflowId: 'wf',
+    status: 'error',
+    mode: 'trigger',
+    finished: true,
+    startedAt: new Date(id * 1000).toISOString(),
+  }) as N8nExecution;
+
+/**
+ * API over a fixed list of failures per server, paged newest first like n8n
+ */
+function mockApi(failures: Record<string, number[]>, down: string[] = []) {
+  const getFailedExecutionsPage = jest.fn<
+    ReturnType<FailureMonitorApi['getFailedExecutionsPage']>,
+    Parameters<FailureMonitorApi['getFailedExecutionsPage']>
+  >(async (target, limit, cursor) => {
+    if (down.includes(target.id)) throw new Error('Network request failed');
+
+    const ids = [...(failures[target.id] ?? [])].sort((a, b) => b - a);
+    const start = cursor ? Number(cursor) : 0;
+    const end = start + limit;
+    return {
+      data: ids.slice(start, end).map(execution),
+      nextCursor: end < ids.length ? String(end) : undefined,
+    };
+  });
+  return { getFailedExecutionsPage };
+}
+
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, index) => from + index);
+
+describe('diffFailures', () => {
+  it('counts everything as seen on the first check', () => {
+    expect(diffFailures([execution(3), execution(7)])).toEqual({ newFailures: [], mark: '7' });
+  });
+
+  it('marks a server without failures so the next ones are new', () => {
+    expect(diffFailures([])).toEqual({ newFailures: [], mark: '0' });
+    expect(diffFailures([execution(1)], '0').newFailures.map(e => e.id)).toEqual(['1']);
+  });
+
+  it('returns the failures past the mark, oldest first, and moves the mark', () => {
+    const { newFailures, mark } = diffFailures([execution(12), execution(9), execution(10)], '9');
+    expect(newFailures.map(e => e.id)).toEqual(['10', '12']);
+    expect(mark).toBe('12');
+  });
+
+  it('keeps the mark when nothing is new', () => {
+    expect(diffFailures([execution(4), execution(2)], '4')).toEqual({ newFailures: [], mark: '4' });
+  });
+
+  it('compares numeric IDs as numbers', () => {
+    expect(diffFailures([execution(10)], '9').newFailures.map(e => e.id)).toEqual(['10']);
+  });
+});
+
+describe('checkServersForFailures', () => {
+  it('reads one page on the first check', async () => {
+    const api = mockApi({ a: range(1, 50) });
+    const result = await checkServersForFailures([server('a')], {}, api);
+
+    expect(api.getFailedExecutionsPage).toHaveBeenCalledTimes(1);
+    expect(result.failures).toEqual([]);
+    expect(result.marks).toEqual({ a: '50' });
+  });
+
+  it('pages back to the mark when more than a page failed since the last check', async () => {
+    const api = mockApi({ a: range(1, 45) });
+    const result = await checkServersForFailures([server('a')], { a: '5' }, api);
+
+    expect(api.getFailedExecutionsPage).toHaveBeenCalledTimes(3);
+    expect(result.failures).toHaveLength(1);
+    expect(result.failures[0].executions.map(e => e.id)).toEqual(range(6, 45).map(String));
+    expect(result.failures[0].more).toBe(false);
+    expect(result.marks).toEqual({ a: '45' });
+  });
+
+  it('stops after the page limit and flags the failures left out', async () => {
+    const total = FAILURE_PAGE_SIZE * MAX_FAILURE_PAGES + 10;
+    const api = mockApi({ a: range(1, total) });
+    const result = await checkServersForFailures([server('a')], { a: '0' }, api);
+
+    expect(api.getFailedExecutionsPage).toHaveBeenCalledTimes(MAX_FAILURE_PAGES);
+    expect(result.failures[0].executions).toHaveLength(FAILURE_PAGE_SIZE * MAX_FAILURE_PAGES);
+    expect(result.failures[0].more).toBe(true);
+    expect(result.marks).toEqual({ a: String(total) });
+  });
+
+  it('keeps the mark of an unreachable server and drops the marks of removed ones', async () => {
+    const api = mockApi({ a: [1, 2, 3] }, ['b']);
+    const result = await checkServersForFailures(
+      [server('a'), server('b')],
+      { a: '2', b: '8', removed: '4' },
+      api
+    );
+
+    expect(result.failures.map(({ server, executions }) => [server.id, executions.map(e => e.id)]))
+      .toEqual([['a', ['3']]]);
+    expect(result.marks).toEqual({ a: '3', b: '8' });
+    expect(result.errors).toEqual([{ serverId: 'b', message: 'Network request failed' }]);
+  });
+});
@@ -0,0 +1,332 @@
+import { AlertCondition, AlertEvaluationState, AlertRule, FiredAlert } from '@/types/alerts';
+import { ExecutionQuery, N8nExecution, N8nServer, N8nWorkflow } from '@/types/n8n';
+import { translations } from './i18n/strings';
+import { createN8nClient } from './n8n-api';
+
+/**
+ * Alert rules engine
+ * Turns each rule into an execution query and checks the fetched executions against it.
+ * The API is injected, same as the failure monitor
+ */
+
+// Executions fetched per rule on every evaluation
+const RULE_PAGE_SIZE = 100;
+// How far back tagged failures are looked for, older ones were reported already or aren't news
+const TAGGED_FAILURE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+// Error windows are checked back to the last evaluation, but no further than this
+const ERROR_COUNT_CATCH_UP_MS = 24 * 60 * 60 * 1000;
+// Fired keys are remembered this long (and at most this many), well past every lookback
+const FIRED_KEY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_FIRED_KEYS = 2000;
+
+/**
+ * A situation a rule reported, before it's recorded as a FiredAlert
+ */
+export interface AlertMatch {
+  key: string;
+  workflowId?: string;
+  workflowName?: string;
+  executionId?: string;
+  value?: number;
+}
+
+export interface AlertRulesApi {
+  getExecutions(server: N8nServer, query: ExecutionQuery, limit: number): Promise<N8nExecution[]>;
+  getWorkflows(server: N8nServer): Promise<N8nWorkflow[]>;
+}
+
+/**
+ * Default API backed by the n8n client
+ */
+export const n8nAlertRulesApi: AlertRulesApi = {
+  async getExecutions(server, query, limit) {
+    const page = await createN8nClient(server).getExecutionsPage(query, { limit });
+    return page.data;
+  },
+  getWorkflows: server => createN8nClient(server).getWorkflows(),
+};
+
+export interface AlertEvaluationResult {
+  alerts: FiredAlert[];
+  errors: { ruleId: string; message: string }[];
+  // State to keep for the next evaluation
+  state: AlertEvaluationState;
+}
+
+/**
+ * Errors ending a window after this time still have to be checked. Background runs can be
+ * hours apart, so it's the last evaluation rather than one window back from now
+ */
+function getErrorWindowsStart(windowMs: number, now: number, lastEvaluatedAt?: Date): number {
+  const since = lastEvaluatedAt ? lastEvaluatedAt.getTime() : now - windowMs;
+  return Math.max(since, now - ERROR_COUNT_CATCH_UP_MS);
+}
+
+/**
+ * Executions a rule has to look at
+ */
+export function getRuleQuery(
+  rule: AlertRule,
+  now: Date,
+  lastEvaluatedAt?: Date
+): { query: ExecutionQuery; limit: number } {
+  const { condition } = rule;
+
+  switch (condition.type) {
+    case 'errorCount': {
+      const windowMs = condition.windowMinutes * 60_000;
+      const windowsStart = getErrorWindowsStart(windowMs, now.getTime(), lastEvaluatedAt);
+      return {
+        query: {
+          status: 'error',
+          workflowId: condition.workflowId,
+          // A full window before the first one checked
+          startedAfter: new Date(windowsStart - windowMs),
+        },
+        limit: RULE_PAGE_SIZE,
+      };
+    }
+    case 'taggedFailure': {
+      const createdAt = new Date(rule.createdAt).getTime();
+      return {
+        query: {
+          status: 'error',
+          startedAfter: new Date(Math.max(createdAt, now.getTime() - TAGGED_FAILURE_LOOKBACK_MS)),
+        },
+        limit: RULE_PAGE_SIZE,
+      };
+    }
+    case 'noSuccess':
+      // Executions come newest first, the latest success is all that matters
+      return { query: { status: 'success', workflowId: condition.workflowId }, limit: 1 };
+    case 'longRunning':
+      return { query: { status: 'running', workflowId: condition.workflowId }, limit: RULE_PAGE_SIZE };
+  }
+}
+
+/**
+ * Check a rule against the executions fetched for it
+ * `workflows` is only needed for tag based rules, `lastEvaluatedAt` for error counts
+ */
+export function evaluateAlertRule(
+  rule: AlertRule,
+  executions: N8nExecution[],
+  context: { now: Date; workflows?: N8nWorkflow[]; lastEvaluatedAt?: Date }
+): AlertMatch[] {
+  const { condition } = rule;
+  const now = context.now.getTime();
+  const startedAt = (execution: N8nExecution) => new Date(execution.startedAt).getTime();
+
+  switch (condition.type) {
+    case 'errorCount': {
+      const windowMs = condition.windowMinutes * 60_000;
+      const windowsStart = getErrorWindowsStart(windowMs, now, context.lastEvaluatedAt);
+      const errors = executions
+        .filter(e => e.workflowId === condition.workflowId)
+        .sort((a, b) => startedAt(a) - startedAt(b));
+
+      // Slide a window ending at each error, a burst between two evaluations counts too
+      const matches: AlertMatch[] = [];
+      let first = 0;
+      let lastFiredAt = -Infinity;
+      errors.forEach((error, index) => {
+        const end = startedAt(error);
+        while (end - startedAt(errors[first]) >= windowMs) first++;
+        const count = index - first + 1;
+
+        // One alert per burst, not one per additional error
+        if (count < condition.threshold || end - lastFiredAt < windowMs) return;
+        lastFiredAt = end;
+        // Earlier windows were checked by the previous evaluation
+        if (end <= windowsStart) return;
+
+        matches.push({
+          key: `${rule.id}:${error.id}`,
+          workflowId: condition.workflowId,
+          workflowName: condition.workflowName,
+          value: count,
+        });
+      });
+      return matches;
+    }
+
+    case 'taggedFailure': {
+      const tag = condition.tag.trim().toLowerCase();
+      const tagged = new Map(
+        (context.workflows ?? [])
+          .filter(w => w.tags?.some(t => t.name.toLowerCase() === tag))
+          .map(w => [w.id, w.name])
+      );
+      const createdAt = new Date(rule.createdAt).getTime();
+
+      return executions
+        .filter(e => tagged.has(e.workflowId) && startedAt(e) >= createdAt)
+        .map(e => ({
+          key: `${rule.id}:${e.id}`,
+          workflowId: e.workflowId,
+          workflowName: tagged.get(e.workflowId),
+          executionId: e.id,
+        }));
+    }
+
+    case 'noSuccess': {
+      const lastSuccess = executions
+        .filter(e => e.workflowId === condition.workflowId)
+        .sort((a, b) => startedAt(b) - startedAt(a))[0];
+      if (lastSuccess && now - startedAt(lastSuccess) <= condition.hours * 3_600_000) return [];
+
+      // Fires again only after a new success resets the clock
+      return [
+        {
+          key: `${rule.id}:${lastSuccess?.id ?? 'none'}`,
+          workflowId: condition.workflowId,
+          workflowName: condition.workflowName,
+          executionId: lastSuccess?.id,
+        },
+      ];
+    }
+
+    case 'longRunning':
+      return executions
+        .filter(e => !condition.workflowId || e.workflowId === condition.workflowId)
+        .filter(e => now - startedAt(e) > condition.minutes * 60_000)
+        .map(e => ({
+          key: `${rule.id}:${e.id}`,
+          workflowId: e.workflowId,
+          workflowName: condition.workflowName ?? e.workflowData?.name,
+          executionId: e.id,
+          value: Math.floor((now - startedAt(e)) / 60_000),
+        }));
+  }
+}
+
+/**
+ * Fired keys still worth remembering: within the retention, newest first up to the cap
+ */
+function pruneFiredKeys(firedKeys: Record<string, string>, now: Date): Record<string, string> {
+  const oldest = now.getTime() - FIRED_KEY_RETENTION_MS;
+  return Object.fromEntries(
+    Object.entries(firedKeys)
+      .filter(([, firedAt]) => new Date(firedAt).getTime() >= oldest)
+      .sort(([, a], [, b]) => b.localeCompare(a))
+      .slice(0, MAX_FIRED_KEYS)
+  );
+}
+
+/**
+ * Evaluate every enabled rule against its server
+ * Matches whose key is in the state's fired keys were already reported and are skipped
+ */
+export async function evaluateAlertRules(
+  rules: AlertRule[],
+  servers: N8nServer[],
+  state: AlertEvaluationState,
+  api: AlertRulesApi = n8nAlertRulesApi,
+  now: Date = new Date()
+): Promise<AlertEvaluationResult> {
+  const firedKeys = { ...state.firedKeys };
+  // Rules that were removed are forgotten
+  const evaluatedAt = Object.fromEntries(
+    rules
+      .filter(rule => state.evaluatedAt[rule.id])
+      .map(rule => [rule.id, state.evaluatedAt[rule.id]])
+  );
+  const result: AlertEvaluationResult = {
+    alerts: [],
+    errors: [],
+    state: { evaluatedAt, firedKeys },
+  };
+  const serversById = new Map(servers.map(server => [server.id, server]));
+  // Tag rules on the same server share one workflow listing
+  const workflowsByServer = new Map<string, Promise<N8nWorkflow[]>>();
+
+  const getServerWorkflows = (server: N8nServer) => {
+    if (!workflowsByServer.has(server.id)) {
+      workflowsByServer.set(server.id, api.getWorkflows(server));
+    }
+    return workflowsByServer.get(server.id)!;
+  };
+
+  const activeRules = rules.filter(rule => rule.enabled && serversById.has(rule.serverId));
+
+  const responses = await Promise.allSettled(
+    activeRules.map(async rule => {
+      const server = serversById.get(rule.serverId)!;
+      const lastEvaluatedAt = evaluatedAt[rule.id] ? new Date(evaluatedAt[rule.id]) : undefined;
+      const { query, limit } = getRuleQuery(rule, now, lastEvaluatedAt);
+      const [executions, workflows] = await Promise.all([
+        api.getExecutions(server, query, limit),
+        rule.condition.type === 'taggedFailure' ? getServerWorkflows(server) : undefined,
+      ]);
+      return evaluateAlertRule(rule, executions, { now, workflows, lastEvaluatedAt });
+    })
+  );
+
+  responses.forEach((response, index) => {
+    const rule = activeRules[index];
+
+    if (response.status === 'rejected') {
+      result.errors.push({
+        ruleId: rule.id,
+        message: response.reason instanceof Error ? response.reason.message : String(response.reason),
+      });
+      return;
+    }
+
+    // A failed rule keeps its old time, the windows it missed are checked next time
+    evaluatedAt[rule.id] = now.toISOString();
+
+    for (const match of response.value) {
+      if (firedKeys[match.key]) continue;
+      firedKeys[match.key] = now.toISOString();
+
+      result.alerts.push({
+        ...match,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        serverId: rule.serverId,
+        conditionType: rule.condition.type,
+        firedAt: now.toISOString(),
+      });
+    }
+  });
+
+  result.state.firedKeys = pruneFiredKeys(firedKeys, now);
+  return result;
+}
+
+type Translations = typeof translations.es;
+
+/**
+ * One line summary of a rule's condition
+ */
+export function describeCondition(condition: AlertCondition, t: Translations): string {
+  switch (condition.type) {
+    case 'errorCount':
+      return `${condition.workflowName}: ≥ ${condition.threshold} ${t.errorsLower} / ${condition.windowMinutes} min`;
+    case 'taggedFailure':
+      return `${t.conditionTaggedFailure}: ${condition.tag}`;
+    case 'noSuccess':
+      return `${condition.workflowName}: ${t.conditionNoSuccess.toLowerCase()} (${condition.hours} h)`;
+    case 'longRunning':
+      return `${condition.workflowName ?? t.anyWorkflow}: > ${condition.minutes} min`;
+  }
+}
+
+/**
+ * What happened, for notifications and the alert history
+ */
+export function describeFiredAlert(alert: FiredAlert, t: Translations): string {
+  const workflow = alert.workflowName ?? alert.workflowId ?? '';
+
+  switch (alert.conditionType) {
+    case 'errorCount':
+      return `${workflow}: ${alert.value} ${t.errorsLower}`;
+    case 'taggedFailure':
+      return `${t.executionFailed}: ${workflow} #${alert.executionId}`;
+    case 'noSuccess':
+      return `${workflow}: ${t.conditionNoSuccess.toLowerCase()}`;
+    case 'longRunning':
+      return `${workflow} #${alert.executionId}: ${t.runningFor} ${alert.value} min`;
+  }
+}
@@ -0,0 +1,187 @@
+import { translations } from './i18n/strings';
+
+/**
+ * API errors
+ * Classifies failed n8n API requests into kinds the UI can explain, so screens
+ * show a localized hint and a way out instead of the raw status text and body
+ */
+
+export type N8nErrorKind =
+  | 'unauthorized'
+  // Rejected by a proxy asking for HTTP Basic auth, before reaching n8n
+  | 'proxyUnauthorized'
+  | 'forbidden'
+  | 'notFound'
+  | 'licenseUnavailable'
+  | 'rateLimited'
+  | 'network'
+  | 'timeout'
+  | 'tls'
+  | 'invalidJson'
+  | 'serverError'
+  // Answered, but not with the shape the app expects
+  | 'unexpectedResponse'
+  | 'unknown';
+
+// What the user can do about it
+export type ErrorRecovery = 'checkApiKey' | 'checkProxyAuth' | 'checkServerUrl' | 'retry';
+
+type Translations = typeof translations.es;
+
+// Kinds worth another try when the request is idempotent
+const RETRYABLE_KINDS: N8nErrorKind[] = ['network', 'rateLimited', 'serverError'];
+
+// n8n answers unlicensed features with a 403 mentioning the license
+const LICENSE_PATTERN = /licen[cs]e/i;
+// The challenge of a Basic auth proxy, n8n's public API never sends one
+const BASIC_CHALLENGE_PATTERN = /^\s*basic\b/i;
+// How certificate problems surface in fetch errors on iOS and Android
+const TLS_PATTERN = /ssl|tls|certificate|trust anchor|handshake/i;
+
+export class N8nApiError extends Error {
+  constructor(
+    // Technical description for logs, screens use describeError()
+    message: string,
+    public kind: N8nErrorKind,
+    public status?: number,
+    // The "message" field of the n8n error body
+    public serverMessage?: string,
+    // Delay the server asked for in Retry-After
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'N8nApiError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Message from an n8n error body ({ message, hint? }), if it is one
+ */
+export function parseErrorBody(body?: string): string | undefined {
+  if (!body) return undefined;
+
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed?.message === 'string' && parsed.message) {
+      return typeof parsed.hint === 'string' && parsed.hint
+        ? `${parsed.message} (${parsed.hint})`
+        : parsed.message;
+    }
+  } catch {
+    // HTML error page from a proxy or similar
+  }
+  return undefined;
+}
+
+/**
+ * Kind of an error response. n8n rejects a bad API key with a JSON message and no challenge,
+ * a proxy asks for Basic auth (WWW-Authenticate) or answers with its own error page
+ */
+export function errorKindFromStatus(
+  status: number,
+  serverMessage?: string,
+  authChallenge?: string | null
+): N8nErrorKind {
+  if (status === 401) {
+    const proxyChallenge = authChallenge && BASIC_CHALLENGE_PATTERN.test(authChallenge);
+    return proxyChallenge || !serverMessage ? 'proxyUnauthorized' : 'unauthorized';
+  }
+  if (status === 403) {
+    return serverMessage && LICENSE_PATTERN.test(serverMessage) ? 'licenseUnavailable' : 'forbidden';
+  }
+  if (status === 404) return 'notFound';
+  if (status === 429) return 'rateLimited';
+  if (status >= 500) return 'serverError';
+  return 'unknown';
+}
+
+/**
+ * Kind of a request that got no usable response
+ */
+export function errorKindFromException(error: unknown): N8nErrorKind {
+  if (error instanceof SyntaxError) return 'invalidJson';
+  if (error instanceof Error && TLS_PATTERN.test(error.message)) return 'tls';
+  return 'network';
+}
+
+const KIND_MESSAGES: Record<N8nErrorKind, keyof Translations> = {
+  unauthorized: 'errorUnauthorized',
+  proxyUnauthorized: 'errorProxyUnauthorized',
+  forbidden: 'errorForbidden',
+  notFound: 'errorNotFound',
+  licenseUnavailable: 'errorLicense',
+  rateLimited: 'errorRateLimited',
+  network: 'errorNetwork',
+  timeout: 'errorTimeout',
+  tls: 'errorTls',
+  invalidJson: 'errorInvalidJson',
+  serverError: 'errorServer',
+  unexpectedResponse: 'errorUnexpectedResponse',
+  unknown: 'errorUnknown',
+};
+
+const KIND_RECOVERIES: Partial<Record<N8nErrorKind, ErrorRecovery>> = {
+  unauthorized: 'checkApiKey',
+  proxyUnauthorized: 'checkProxyAuth',
+  forbidden: 'checkApiKey',
+  network: 'checkServerUrl',
+  tls: 'checkServerUrl',
+  invalidJson: 'checkServerUrl',
+  rateLimited: 'retry',
+  timeout: 'retry',
+  serverError: 'retry',
+};
+
+const RECOVERY_LABELS: Record<ErrorRecovery, keyof Translations> = {
+  checkApiKey: 'checkApiKey',
+  checkProxyAuth: 'checkProxyAuth',
+  checkServerUrl: 'checkServerUrl',
+  retry: 'retry',
+};
+
+export interface ErrorDescription {
+  kind: N8nErrorKind;
+  // Localized explanation
+  message: string;
+  // What the server said, when it said something useful
+  detail?: string;
+  recovery?: ErrorRecovery;
+  recoveryLabel?: string;
+}
+
+/**
+ * Localized explanation of any error, with a recovery action for API errors
+ */
+export function describeError(error: unknown, t: Translations): ErrorDescription {
+  if (!(error instanceof N8nApiError)) {
+    return {
+      kind: 'unknown',
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const recovery = KIND_RECOVERIES[error.kind];
+  // Without a server message an unexpected status is still better than nothing
+  const statusDetail = error.kind === 'unknown' && error.status ? `HTTP ${error.status}` : undefined;
+  // Which field didn't match, so it can be reported
+  const schemaDetail = error.kind === 'unexpectedResponse' ? error.message : undefined;
+  return {
+    kind: error.kind,
+    message: t[KIND_MESSAGES[error.kind]],
+    detail: error.serverMessage ?? statusDetail ?? schemaDetail,
+    recovery,
+    recoveryLabel: recovery ? t[RECOVERY_LABELS[recovery]] : undefined,
+  };
+}
+
+/**
+ * describeError() as a single alert message
+ */
+export function formatError(error: unknown, t: Translations): string {
+  const { message, detail } = describeError(error, t);
+  return detail ? `${message}\n\n${detail}` : message;
+}
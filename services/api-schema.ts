@@ -0,0 +1,253 @@
+import {
+  N8nExecution,
+  N8nExecutionStatus,
+  N8nListResponse,
+  N8nNode,
+  N8nTag,
+  N8nWorkflow,
+} from '@/types/n8n';
+import { N8nApiError } from './api-errors';
+
+/**
+ * API response schemas
+ * Checks what the server sent against the shapes the app relies on, instead of
+ * trusting the types in types/n8n.ts. Known differences between n8n versions are
+ * smoothed over (and recorded as quirks); anything else fails with a clear error
+ */
+
+/**
+ * Version differences that parsing tolerates
+ */
+export type CompatibilityQuirk =
+  // List endpoints answer with a bare array instead of { data, nextCursor }
+  | 'bareArrayList'
+  // IDs sent as numbers (n8n before 1.0)
+  | 'numericIds'
+  // Executions without a status field, derived from finished/stoppedAt
+  | 'missingExecutionStatus'
+  // Statuses the app doesn't know (canceled, crashed, new…), mapped to the closest one
+  | 'unknownExecutionStatus';
+
+export interface ParseOptions {
+  // Collects the quirks met while parsing, for the compatibility report
+  quirks?: Set<CompatibilityQuirk>;
+}
+
+export type Parser<T> = (value: unknown, path: string, options: ParseOptions) => T;
+
+const EXECUTION_STATUSES: N8nExecutionStatus[] = ['success', 'error', 'waiting', 'running'];
+
+// Statuses of newer servers, by the app status they behave like
+const EXTRA_EXECUTION_STATUSES: Record<string, N8nExecutionStatus> = {
+  new: 'waiting',
+  canceled: 'error',
+  crashed: 'error',
+  unknown: 'error',
+};
+
+type JsonObject = Record<string, unknown>;
+
+const describeValue = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new N8nApiError(
+    `Unexpected response: ${path} should be ${expected}, got ${describeValue(value)}`,
+    'unexpectedResponse'
+  );
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): JsonObject {
+  return isObject(value) ? value : fail(path, 'an object', value);
+}
+
+function expectString(value: unknown, path: string): string {
+  return typeof value === 'string' ? value : fail(path, 'a string', value);
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  return typeof value === 'boolean' ? value : fail(path, 'a boolean', value);
+}
+
+/**
+ * Missing and null both mean "not set"
+ */
+function optional<T>(value: unknown, parse: (value: unknown) => T): T | undefined {
+  return value === undefined || value === null ? undefined : parse(value);
+}
+
+function expectId(value: unknown, path: string, options: ParseOptions): string {
+  if (typeof value === 'number') {
+    options.quirks?.add('numericIds');
+    return String(value);
+  }
+  return expectString(value, path);
+}
+
+function expectArray<T>(
+  value: unknown,
+  path: string,
+  parseItem: Parser<T>,
+  options: ParseOptions
+): T[] {
+  if (!Array.isArray(value)) fail(path, 'an array', value);
+  return value.map((item, index) => parseItem(item, `${path}[${index}]`, options));
+}
+
+const parseTag: Parser<N8nTag> = (value, path, options) => {
+  const tag = expectObject(value, path);
+  return {
+    ...tag,
+    id: expectId(tag.id, `${path}.id`, options),
+    name: expectString(tag.name, `${path}.name`),
+  } as N8nTag;
+};
+
+/**
+ * Canvas position of a node, undefined when missing or malformed
+ * Only the graph needs it and it skips nodes without one, so a bad position
+ * shouldn't fail the whole workflow
+ */
+function parsePosition(value: unknown): [number, number] | undefined {
+  return Array.isArray(value) &&
+    value.length === 2 &&
+    value.every(coordinate => typeof coordinate === 'number' && Number.isFinite(coordinate))
+    ? [value[0], value[1]]
+    : undefined;
+}
+
+const parseNode: Parser<N8nNode> = (value, path, options) => {
+  const node = expectObject(value, path);
+  const name = expectString(node.name, `${path}.name`);
+  return {
+    ...node,
+    // Nodes of old workflows may not have an ID, their name is unique anyway
+    id: optional(node.id, id => expectId(id, `${path}.id`, options)) ?? name,
+    name,
+    type: expectString(node.type, `${path}.type`),
+    position: parsePosition(node.position),
+  } as N8nNode;
+};
+
+export const parseWorkflow: Parser<N8nWorkflow> = (value, path, options) => {
+  const workflow = expectObject(value, path);
+  return {
+    ...workflow,
+    id: expectId(workflow.id, `${path}.id`, options),
+    name: expectString(workflow.name, `${path}.name`),
+    active: expectBoolean(workflow.active, `${path}.active`),
+    createdAt: expectString(workflow.createdAt, `${path}.createdAt`),
+    updatedAt: expectString(workflow.updatedAt, `${path}.updatedAt`),
+    tags: optional(workflow.tags, tags => expectArray(tags, `${path}.tags`, parseTag, options)),
+    nodes: optional(workflow.nodes, nodes =>
+      expectArray(nodes, `${path}.nodes`, parseNode, options)
+    ),
+    connections: optional(workflow.connections, connections =>
+      expectObject(connections, `${path}.connections`)
+    ),
+  } as N8nWorkflow;
+};
+
+/**
+ * Status of an execution, filling in for servers that don't send one or send newer values
+ */
+function parseExecutionStatus(
+  execution: JsonObject,
+  path: string,
+  options: ParseOptions
+): N8nExecutionStatus {
+  const { status } = execution;
+
+  if (status === undefined || status === null) {
+    options.quirks?.add('missingExecutionStatus');
+    if (execution.finished === true) return 'success';
+    if (execution.waitTill) return 'waiting';
+    return execution.stoppedAt ? 'error' : 'running';
+  }
+
+  const value = expectString(status, `${path}.status`);
+  if (EXECUTION_STATUSES.includes(value as N8nExecutionStatus)) {
+    return value as N8nExecutionStatus;
+  }
+
+  options.quirks?.add('unknownExecutionStatus');
+  return EXTRA_EXECUTION_STATUSES[value] ?? 'error';
+}
+
+export const parseExecution: Parser<N8nExecution> = (value, path, options) => {
+  const execution = expectObject(value, path);
+
+  // Only the parts the screens walk into are checked, node output stays free-form
+  if (execution.data !== undefined && execution.data !== null) {
+    const data = expectObject(execution.data, `${path}.data`);
+    const resultData = expectObject(data.resultData, `${path}.data.resultData`);
+    optional(resultData.runData, runData =>
+      expectObject(runData, `${path}.data.resultData.runData`)
+    );
+  }
+
+  return {
+    ...execution,
+    id: expectId(execution.id, `${path}.id`, options),
+    finished: execution.finished === true,
+    mode: expectString(execution.mode, `${path}.mode`),
+    startedAt: expectString(execution.startedAt, `${path}.startedAt`),
+    stoppedAt: optional(execution.stoppedAt, stoppedAt =>
+      expectString(stoppedAt, `${path}.stoppedAt`)
+    ),
+    workflowId: expectId(execution.workflowId, `${path}.workflowId`, options),
+    retryOf: optional(execution.retryOf, id => expectId(id, `${path}.retryOf`, options)),
+    retrySuccessId: optional(execution.retrySuccessId, id =>
+      expectId(id, `${path}.retrySuccessId`, options)
+    ),
+    status: parseExecutionStatus(execution, path, options),
+    data: execution.data ?? undefined,
+  } as N8nExecution;
+};
+
+/**
+ * A page of a list endpoint, either { data, nextCursor } or a bare array
+ */
+export function parseList<T>(
+  value: unknown,
+  path: string,
+  parseItem: Parser<T>,
+  options: ParseOptions
+): N8nListResponse<T> {
+  if (Array.isArray(value)) {
+    options.quirks?.add('bareArrayList');
+    return { data: expectArray(value, path, parseItem, options) };
+  }
+
+  const list = expectObject(value, path);
+  return {
+    data: expectArray(list.data, `${path}.data`, parseItem, options),
+    // Some versions send an empty string on the last page
+    nextCursor:
+      optional(list.nextCursor, cursor => expectString(cursor, `${path}.nextCursor`)) || undefined,
+  };
+}
+
+export interface N8nServerSettings {
+  version?: string;
+  // Whether the license includes source control, missing when the server doesn't say
+  sourceControlLicensed?: boolean;
+}
+
+/**
+ * Instance settings from /rest/settings, only the version and license flags are of interest.
+ * Not part of the public API, so nothing in it is required
+ */
+export const parseServerSettings: Parser<N8nServerSettings> = value => {
+  const settings = isObject(value) && isObject(value.data) ? value.data : undefined;
+  const enterprise = isObject(settings?.enterprise) ? settings.enterprise : undefined;
+  return {
+    version: typeof settings?.versionCli === 'string' ? settings.versionCli : undefined,
+    sourceControlLicensed:
+      typeof enterprise?.sourceControl === 'boolean' ? enterprise.sourceControl : undefined,
+  };
+};
@@ -0,0 +1,100 @@
+import { N8nCapabilities, N8nFeature, N8nFeatureSupport, N8nServer } from '@/types/n8n';
+import { N8nApiError } from './api-errors';
+import { createLogger } from './logger';
+import { N8nClient } from './n8n-api';
+
+/**
+ * Server capabilities
+ * Self-hosted servers run different n8n versions and licenses, so the public API
+ * endpoints the app can use vary. Each one is probed without side effects and the
+ * result is stored with the server, screens then hide what isn't there
+ */
+
+const log = createLogger('capabilities');
+
+// Profiles older than this are probed again, servers get upgraded
+export const CAPABILITIES_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How each feature is probed. Action endpoints only accept POST, a GET on them
+ * answers 405 when the route exists and 404 when it doesn't, without running anything.
+ * The route exists whatever the license, so source control is also checked against
+ * the license flags of the instance settings
+ */
+const FEATURE_PROBES: Record<N8nFeature, string> = {
+  projects: '/projects?limit=1',
+  variables: '/variables?limit=1',
+  sourceControl: '/source-control/pull',
+  // No execution has ID 0, the route is all that matters
+  executionRetry: '/executions/0/retry',
+  executionStop: '/executions/0/stop',
+};
+
+const FEATURES = Object.keys(FEATURE_PROBES) as N8nFeature[];
+
+/**
+ * Support implied by how the server answered a probe
+ */
+function supportFromError(error: unknown): N8nFeatureSupport {
+  if (!(error instanceof N8nApiError)) return 'unknown';
+  if (error.status === 405) return 'supported';
+  if (error.kind === 'licenseUnavailable') return 'unlicensed';
+  if (error.kind === 'forbidden') return 'forbidden';
+  if (error.kind === 'notFound') return 'unsupported';
+  return 'unknown';
+}
+
+async function probeFeature(client: N8nClient, feature: N8nFeature): Promise<N8nFeatureSupport> {
+  try {
+    await client.probe(FEATURE_PROBES[feature]);
+    return 'supported';
+  } catch (error) {
+    return supportFromError(error);
+  }
+}
+
+/**
+ * Build the capability profile of a server. Never throws, unreachable parts end up 'unknown'
+ */
+export async function detectCapabilities(client: N8nClient): Promise<N8nCapabilities> {
+  const settings = await client.getServerSettings({ quick: true }).catch(() => undefined);
+
+  // One at a time, servers behind small proxies don't like bursts
+  const features = {} as Record<N8nFeature, N8nFeatureSupport>;
+  for (const feature of FEATURES) {
+    features[feature] = await probeFeature(client, feature);
+  }
+  // A 405 only proves the route is there. Servers that don't share their settings keep
+  // 'supported', and the action fails with the license error when it's used
+  if (features.sourceControl === 'supported' && settings?.sourceControlLicensed === false) {
+    features.sourceControl = 'unlicensed';
+  }
+
+  const version = settings?.version;
+  log.info('Detected capabilities', { version, features });
+  return { version, features, checkedAt: new Date().toISOString() };
+}
+
+/**
+ * Whether a server's profile is missing or old enough to probe again
+ */
+export function needsCapabilityCheck(server: N8nServer, now: Date = new Date()): boolean {
+  if (!server.capabilities) return true;
+  return now.getTime() - new Date(server.capabilities.checkedAt).getTime() > CAPABILITIES_MAX_AGE_MS;
+}
+
+/**
+ * Whether to offer a feature on a server. Anything not known to be missing is offered,
+ * so servers that haven't been probed yet (or couldn't be) keep working as before
+ */
+export function hasFeature(server: N8nServer | null | undefined, feature: N8nFeature): boolean {
+  const support = server?.capabilities?.features[feature];
+  return support === undefined || support === 'supported' || support === 'unknown';
+}
+
+/**
+ * Features a server is known not to offer
+ */
+export function getUnavailableFeatures(server: N8nServer): N8nFeature[] {
+  return FEATURES.filter(feature => !hasFeature(server, feature));
+}
@@ -0,0 +1,63 @@
+import { CompatibilityQuirk } from './api-schema';
+import { N8nClient } from './n8n-api';
+
+/**
+ * Compatibility report
+ * Probes the endpoints the app depends on and reports whether each answered with
+ * a shape the app understands, and which version differences had to be smoothed over
+ */
+
+// Items requested per list probe, enough to hit most per-item differences
+const SAMPLE_SIZE = 10;
+
+export type CompatibilityCheckId = 'workflows' | 'executions' | 'executionData';
+
+export interface CompatibilityCheck {
+  id: CompatibilityCheckId;
+  // warning: works, but only thanks to tolerant parsing
+  status: 'ok' | 'warning' | 'failed' | 'skipped';
+  quirks: CompatibilityQuirk[];
+  error?: unknown;
+}
+
+export interface CompatibilityReport {
+  checks: CompatibilityCheck[];
+  // Every endpoint usable, quirks or not
+  compatible: boolean;
+}
+
+async function runCheck(
+  id: CompatibilityCheckId,
+  probe: (quirks: Set<CompatibilityQuirk>) => Promise<unknown>
+): Promise<CompatibilityCheck> {
+  const quirks = new Set<CompatibilityQuirk>();
+  try {
+    await probe(quirks);
+    return { id, status: quirks.size > 0 ? 'warning' : 'ok', quirks: [...quirks] };
+  } catch (error) {
+    return { id, status: 'failed', quirks: [...quirks], error };
+  }
+}
+
+/**
+ * Probe a server. Never throws, failures end up in the report
+ */
+export async function checkCompatibility(client: N8nClient): Promise<CompatibilityReport> {
+  const workflows = await runCheck('workflows', quirks =>
+    client.getWorkflowsPage({ limit: SAMPLE_SIZE }, { quirks })
+  );
+
+  let latestExecutionId: string | undefined;
+  const executions = await runCheck('executions', async quirks => {
+    const page = await client.getExecutionsPage({}, { limit: SAMPLE_SIZE }, { quirks });
+    latestExecutionId = page.data[0]?.id;
+  });
+
+  // Node data is the most version-dependent part, but needs an execution to look at
+  const executionData: CompatibilityCheck = latestExecutionId
+    ? await runCheck('executionData', quirks => client.getExecution(latestExecutionId!, { quirks }))
+    : { id: 'executionData', status: 'skipped', quirks: [] };
+
+  const checks = [workflows, executions, executionData];
+  return { checks, compatible: checks.every(check => check.status !== 'failed') };
+}
@@ -0,0 +1,136 @@
+import { N8nExecution, N8nServer, N8nWorkflow } from '@/types/n8n';
+import { createN8nClient } from './n8n-api';
+
+/**
+ * Cross-server dashboard
+ * Fetches every saved server in parallel; a server that is down only marks its
+ * own card as unreachable. The API is injected, same as the failure monitor
+ */
+
+// Window the error count and the failure feed cover
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Failures fetched per server, the error count shows "+" past this
+const FAILURE_PAGE_SIZE = 100;
+// Entries kept in the merged feed
+const MAX_FEED_ENTRIES = 50;
+
+export interface DashboardApi {
+  getWorkflows(server: N8nServer): Promise<N8nWorkflow[]>;
+  getFailures(
+    server: N8nServer,
+    startedAfter: Date,
+    limit: number
+  ): Promise<{ executions: N8nExecution[]; hasMore: boolean }>;
+}
+
+/**
+ * Default API backed by the n8n client
+ */
+export const n8nDashboardApi: DashboardApi = {
+  getWorkflows: server => createN8nClient(server).getWorkflows(),
+  async getFailures(server, startedAfter, limit) {
+    const page = await createN8nClient(server).getExecutionsPage(
+      { status: 'error', startedAfter },
+      { limit }
+    );
+    // The page is filtered to the window, so a full one means its last failure is inside it
+    // too. Only then can more be left, a cursor alone is also set on n8n's last page
+    return {
+      executions: page.data,
+      hasMore: page.data.length >= limit && !!page.nextCursor,
+    };
+  },
+};
+
+export interface ServerHealth {
+  server: N8nServer;
+  reachable: boolean;
+  // Why the server couldn't be reached, shown with describeError()
+  error?: unknown;
+  workflowCount: number;
+  activeCount: number;
+  errorCount: number;
+  // More failures than were fetched, errorCount is a lower bound
+  errorCountCapped: boolean;
+}
+
+/**
+ * A failed execution in the merged feed, with the server it ran on
+ */
+export interface DashboardFailure {
+  server: N8nServer;
+  execution: N8nExecution;
+  workflowName: string;
+}
+
+export interface Dashboard {
+  health: ServerHealth[];
+  // Newest first across every server
+  failures: DashboardFailure[];
+}
+
+/**
+ * Health and recent failures of every server
+ */
+export async function getDashboard(
+  servers: N8nServer[],
+  api: DashboardApi = n8nDashboardApi,
+  now: Date = new Date()
+): Promise<Dashboard> {
+  const startedAfter = new Date(now.getTime() - FAILURE_WINDOW_MS);
+
+  const responses = await Promise.allSettled(
+    servers.map(server =>
+      Promise.all([api.getWorkflows(server), api.getFailures(server, startedAfter, FAILURE_PAGE_SIZE)])
+    )
+  );
+
+  const dashboard: Dashboard = { health: [], failures: [] };
+
+  responses.forEach((response, index) => {
+    const server = servers[index];
+
+    if (response.status === 'rejected') {
+      dashboard.health.push({
+        server,
+        reachable: false,
+        error: response.reason,
+        workflowCount: 0,
+        activeCount: 0,
+        errorCount: 0,
+        errorCountCapped: false,
+      });
+      return;
+    }
+
+    const [workflows, { executions, hasMore }] = response.value;
+    const names = new Map(workflows.map(workflow => [workflow.id, workflow.name]));
+
+    dashboard.health.push({
+      server,
+      reachable: true,
+      workflowCount: workflows.length,
+      activeCount: workflows.filter(workflow => workflow.active).length,
+      errorCount: executions.length,
+      errorCountCapped: hasMore,
+    });
+
+    for (const execution of executions) {
+      dashboard.failures.push({
+        server,
+        execution,
+        workflowName:
+          execution.workflowData?.name ?? names.get(execution.workflowId) ?? execution.workflowId,
+      });
+    }
+  });
+
+  dashboard.failures = dashboard.failures
+    .sort(
+      (a, b) =>
+        new Date(b.execution.startedAt).getTime() - new Date(a.execution.startedAt).getTime()
+    )
+    .slice(0, MAX_FEED_ENTRIES);
+
+  return dashboard;
+}
@@ -0,0 +1,231 @@
+import { N8nConfig } from '@/types/n8n';
+import { N8nApiError, N8nErrorKind } from './api-errors';
+import { API_BASE_PATH, createN8nClient } from './n8n-api';
+
+/**
+ * Connection diagnostics
+ * Staged checks behind the "test connection" button. Each stage narrows down where a
+ * broken connection fails (URL, network, TLS, proxy, API path, key, permissions), and stages
+ * that depend on a failed one are skipped instead of reporting the same error again
+ */
+
+export type DiagnosticStepId =
+  | 'url'
+  | 'reachability'
+  | 'tls'
+  | 'proxyAuth'
+  | 'apiPath'
+  | 'auth'
+  | 'workflows'
+  | 'executions'
+  | 'latency';
+
+export interface DiagnosticStep {
+  id: DiagnosticStepId;
+  status: 'pending' | 'passed' | 'warning' | 'failed' | 'skipped';
+  // Plain value shown next to the step (normalized URL, timings, counts)
+  value?: string;
+  error?: unknown;
+}
+
+export interface ConnectionDiagnosis {
+  // Normalized server URL, missing when it couldn't be parsed
+  serverUrl?: string;
+  steps: DiagnosticStep[];
+  // Everything the app needs works, warnings included
+  ok: boolean;
+}
+
+const STEP_IDS: DiagnosticStepId[] = [
+  'url',
+  'reachability',
+  'tls',
+  'proxyAuth',
+  'apiPath',
+  'auth',
+  'workflows',
+  'executions',
+  'latency',
+];
+
+// Round trips slower than this get a warning, the app makes many of them
+const SLOW_LATENCY_MS = 1500;
+
+// Errors that mean nothing answered at all
+const UNREACHABLE_KINDS: N8nErrorKind[] = ['network', 'timeout', 'tls'];
+
+/**
+ * Clean up a pasted URL: drop trailing slashes, the API path and workflow deep links.
+ * A path prefix is kept, for n8n served under a subpath. Returns null when it isn't an http(s) URL
+ */
+export function normalizeServerUrl(input: string): string | null {
+  const cleaned = input
+    .trim()
+    .replace(/\/api\/v1\/?$/, '')
+    .replace(/\/workflow\/[^/]+.*$/, '');
+
+  try {
+    const url = new URL(cleaned);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Clean up an API base path override: one leading slash, no trailing one.
+ * Returns undefined when it's empty or the default, so the server keeps following the default
+ */
+export function normalizeApiBasePath(input: string): string | undefined {
+  const path = input.trim().replace(/^\/+|\/+$/g, '');
+  if (!path) return undefined;
+  return `/${path}` === API_BASE_PATH ? undefined : `/${path}`;
+}
+
+const errorKind = (error: unknown) => (error instanceof N8nApiError ? error.kind : undefined);
+
+/**
+ * Run a request and time it
+ * Requests here are quick (one short attempt), a dead host shouldn't take a minute per step
+ */
+async function timed<T>(
+  run: () => Promise<T>
+): Promise<{ value?: T; error?: unknown; durationMs: number }> {
+  const start = Date.now();
+  try {
+    const value = await run();
+    return { value, durationMs: Date.now() - start };
+  } catch (error) {
+    return { error, durationMs: Date.now() - start };
+  }
+}
+
+/**
+ * Diagnose a server before it's saved. Never throws, every failure ends up in a step.
+ * onProgress gets the steps after each stage, for a live checklist
+ */
+export async function diagnoseConnection(
+  input: N8nConfig,
+  onProgress?: (steps: DiagnosticStep[]) => void
+): Promise<ConnectionDiagnosis> {
+  const steps = new Map<DiagnosticStepId, DiagnosticStep>(
+    STEP_IDS.map(id => [id, { id, status: 'pending' }])
+  );
+  const list = () => STEP_IDS.map(id => steps.get(id)!);
+  const finish = (serverUrl?: string): ConnectionDiagnosis => {
+    const result = list();
+    return { serverUrl, steps: result, ok: result.every(step => step.status !== 'failed') };
+  };
+  const set = (id: DiagnosticStepId, step: Omit<DiagnosticStep, 'id'>) => {
+    steps.set(id, { id, ...step });
+    onProgress?.(list());
+  };
+  const skipRest = () => {
+    for (const step of list()) {
+      if (step.status === 'pending') steps.set(step.id, { ...step, status: 'skipped' });
+    }
+    onProgress?.(list());
+  };
+
+  // 1. URL
+  const serverUrl = normalizeServerUrl(input.serverUrl);
+  if (!serverUrl) {
+    set('url', { status: 'failed' });
+    skipRest();
+    return finish();
+  }
+  set('url', { status: 'passed', value: serverUrl });
+
+  const client = createN8nClient({
+    ...input,
+    id: input.id ?? 'connection-test',
+    name: input.name ?? serverUrl,
+    serverUrl,
+    apiKey: input.apiKey.trim(),
+  });
+
+  // 2. Reachability (DNS and connection): any HTTP answer will do, even an error page
+  const ping = await timed(() => client.ping({ quick: true }));
+  const pingKind = errorKind(ping.error);
+  const reachable = !ping.error || !UNREACHABLE_KINDS.includes(pingKind ?? 'network');
+
+  // 3. TLS, only meaningful over https
+  const isHttps = serverUrl.startsWith('https:');
+  if (pingKind === 'tls') {
+    set('reachability', { status: 'skipped' });
+    set('tls', { status: 'failed', error: ping.error });
+    skipRest();
+    return finish(serverUrl);
+  }
+  if (!reachable) {
+    set('reachability', { status: 'failed', error: ping.error });
+    skipRest();
+    return finish(serverUrl);
+  }
+  set('reachability', { status: 'passed', value: `${ping.durationMs} ms` });
+  // Plain http works, but sends the API key in the clear
+  set('tls', { status: isHttps ? 'passed' : 'warning' });
+
+  // 4-7. Proxy auth, API path, API key and workflow access all come from one request
+  const basePath = input.apiBasePath || API_BASE_PATH;
+  const workflows = await timed(() => client.getWorkflowsPage({ limit: 1 }, { quick: true }));
+  const workflowsKind = errorKind(workflows.error);
+
+  // The health check may be exempt from the proxy's auth, the API rarely is
+  const proxyError = [ping, workflows].find(
+    attempt => errorKind(attempt.error) === 'proxyUnauthorized'
+  )?.error;
+  if (proxyError) {
+    set('proxyAuth', { status: 'failed', error: proxyError });
+    skipRest();
+    return finish(serverUrl);
+  }
+  // Nothing to check without a proxy asking for credentials
+  set(
+    'proxyAuth',
+    input.basicAuth
+      ? { status: 'passed', value: input.basicAuth.username }
+      : { status: 'skipped' }
+  );
+
+  if (workflowsKind === 'notFound' || workflowsKind === 'invalidJson') {
+    set('apiPath', { status: 'failed', value: basePath, error: workflows.error });
+    skipRest();
+    return finish(serverUrl);
+  }
+  if (workflows.error && UNREACHABLE_KINDS.includes(workflowsKind ?? 'network')) {
+    set('apiPath', { status: 'failed', value: basePath, error: workflows.error });
+    skipRest();
+    return finish(serverUrl);
+  }
+  set('apiPath', { status: 'passed', value: basePath });
+
+  if (workflowsKind === 'unauthorized') {
+    set('auth', { status: 'failed', error: workflows.error });
+    skipRest();
+    return finish(serverUrl);
+  }
+  set('auth', { status: 'passed' });
+
+  set(
+    'workflows',
+    workflows.error ? { status: 'failed', error: workflows.error } : { status: 'passed' }
+  );
+
+  // 8. Executions
+  const executions = await timed(() => client.getExecutionsPage({}, { limit: 1 }, { quick: true }));
+  set(
+    'executions',
+    executions.error ? { status: 'failed', error: executions.error } : { status: 'passed' }
+  );
+
+  // 9. Latency: the slowest API round trip, the one screens will feel
+  const latency = Math.max(workflows.durationMs, executions.durationMs);
+  set('latency', {
+    status: latency > SLOW_LATENCY_MS ? 'warning' : 'passed',
+    value: `${latency} ms`,
+  });
+
+  return finish(serverUrl);
+}
@@ -0,0 +1,179 @@
+import {
+  N8nExecution,
+  N8nNodeExecutionData,
+  N8nNodeExecutionStatus,
+  N8nTaskData,
+} from '@/types/n8n';
+import { edgeOutputKey, GraphOverlay } from './workflow-graph';
+
+/**
+ * Execution data helpers
+ * Read node runs and items out of an execution's runData
+ */
+
+/**
+ * One node run placed on the execution timeline
+ */
+export interface TimelineEntry {
+  nodeName: string;
+  runIndex: number;
+  run: N8nTaskData;
+  status: N8nNodeExecutionStatus;
+}
+
+/**
+ * Get every run of a node (one entry per run index)
+ */
+export function getNodeRuns(execution: N8nExecution, nodeName: string): N8nTaskData[] {
+  return execution.data?.resultData?.runData?.[nodeName] ?? [];
+}
+
+/**
+ * Get the output items of a run, grouped by output index
+ * (e.g. an IF node has a "true" and a "false" output)
+ */
+export function getRunOutputs(run: N8nTaskData | undefined): N8nNodeExecutionData[][] {
+  const main = run?.data?.main ?? [];
+  return main.map(items => items ?? []);
+}
+
+/**
+ * Get the input items of a run by following its source back to the
+ * output of the node that fed it
+ */
+export function getRunInputItems(
+  execution: N8nExecution,
+  run: N8nTaskData | undefined
+): N8nNodeExecutionData[] {
+  const source = run?.source?.[0];
+  if (!source?.previousNode) return [];
+
+  const previousRun = getNodeRuns(execution, source.previousNode)[source.previousNodeRun ?? 0];
+  return getRunOutputs(previousRun)[source.previousNodeOutput ?? 0] ?? [];
+}
+
+/**
+ * Total items across all outputs of a run
+ */
+export function countOutputItems(run: N8nTaskData | undefined): number {
+  return getRunOutputs(run).reduce((total, items) => total + items.length, 0);
+}
+
+/**
+ * Status of a run, for servers that don't send executionStatus
+ */
+export function getRunStatus(run: N8nTaskData): N8nNodeExecutionStatus {
+  return run.executionStatus ?? (run.error ? 'error' : 'success');
+}
+
+/**
+ * Every node run in the order it actually executed
+ * Uses executionIndex when the server provides it, start time otherwise
+ */
+export function getExecutionTimeline(execution: N8nExecution): TimelineEntry[] {
+  const runData = execution.data?.resultData?.runData ?? {};
+
+  const entries = Object.entries(runData).flatMap(([nodeName, runs]) =>
+    runs.map((run, runIndex) => ({ nodeName, runIndex, run, status: getRunStatus(run) }))
+  );
+
+  return entries.sort((a, b) => {
+    if (a.run.executionIndex !== undefined && b.run.executionIndex !== undefined) {
+      return a.run.executionIndex - b.run.executionIndex;
+    }
+    return a.run.startTime - b.run.startTime;
+  });
+}
+
+/**
+ * Human readable duration from milliseconds (e.g. "850 ms", "2.41 s", "3m 12s")
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(2)} s`;
+
+  const minutes = Math.floor(ms / 60_000);
+  const seconds = Math.round((ms % 60_000) / 1000);
+  return `${minutes}m ${seconds}s`;
+}
+
+/**
+ * A timeline entry positioned relative to the start of the execution
+ */
+export interface WaterfallBar extends TimelineEntry {
+  offset: number;
+  duration: number;
+}
+
+export interface ExecutionWaterfall {
+  totalDuration: number;
+  bars: WaterfallBar[];
+  slowest: WaterfallBar[];
+}
+
+/**
+ * Lay node runs out on a common time axis starting at the first run
+ */
+export function getExecutionWaterfall(
+  execution: N8nExecution,
+  slowestCount: number = 3
+): ExecutionWaterfall {
+  const timeline = getExecutionTimeline(execution);
+  if (timeline.length === 0) {
+    return { totalDuration: 0, bars: [], slowest: [] };
+  }
+
+  // reduce rather than Math.min(...spread): looping workflows can have thousands of runs
+  const start = timeline.reduce((min, e) => Math.min(min, e.run.startTime), Infinity);
+  const end = timeline.reduce(
+    (max, e) => Math.max(max, e.run.startTime + e.run.executionTime),
+    -Infinity
+  );
+
+  const bars = timeline.map(entry => ({
+    ...entry,
+    offset: entry.run.startTime - start,
+    duration: entry.run.executionTime,
+  }));
+
+  const slowest = [...bars]
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, slowestCount)
+    .filter(bar => bar.duration > 0);
+
+  return { totalDuration: end - start, bars, slowest };
+}
+
+/**
+ * Per-node status and per-output item counts for drawing an execution on the workflow graph
+ */
+export function getGraphOverlay(execution: N8nExecution): GraphOverlay {
+  const runData = execution.data?.resultData?.runData ?? {};
+  const overlay: GraphOverlay = {
+    nodes: {},
+    outputs: {},
+    errorNode: execution.data?.resultData?.error?.node?.name,
+  };
+
+  for (const [nodeName, runs] of Object.entries(runData)) {
+    // The last run decides the status: a node that failed and then succeeded on retry is green
+    const lastRun = runs[runs.length - 1];
+    overlay.nodes[nodeName] = {
+      status: lastRun ? getRunStatus(lastRun) : 'unknown',
+      itemCount: runs.reduce((total, run) => total + countOutputItems(run), 0),
+    };
+
+    for (const run of runs) {
+      getRunOutputs(run).forEach((items, outputIndex) => {
+        const key = edgeOutputKey(nodeName, outputIndex);
+        overlay.outputs[key] = (overlay.outputs[key] ?? 0) + items.length;
+      });
+    }
+  }
+
+  if (overlay.errorNode && !overlay.nodes[overlay.errorNode]) {
+    overlay.nodes[overlay.errorNode] = { status: 'error', itemCount: 0 };
+  }
+
+  return overlay;
+}
@@ -0,0 +1,149 @@
+import { N8nExecution, N8nListResponse, N8nServer } from '@/types/n8n';
+import { createN8nClient } from './n8n-api';
+
+/**
+ * Failure monitor
+ * Finds error executions that appeared on each server since the last check.
+ * The API is injected so the diffing can run against a mocked client
+ */
+
+// Failures fetched per page, pages are read until the server's mark is reached
+export const FAILURE_PAGE_SIZE = 20;
+// Past this many pages the older failures are only counted as "more"
+export const MAX_FAILURE_PAGES = 5;
+
+// Mark for a server that had no failures on its first check
+const EMPTY_MARK = '0';
+
+/**
+ * Newest failed execution ID already seen, per server ID
+ */
+export type HighWaterMarks = Record<string, string>;
+
+export interface FailureMonitorApi {
+  getFailedExecutionsPage(
+    server: N8nServer,
+    limit: number,
+    cursor?: string
+  ): Promise<N8nListResponse<N8nExecution>>;
+}
+
+/**
+ * Default API: one page of error executions of a server, newest first
+ */
+export const n8nFailureMonitorApi: FailureMonitorApi = {
+  getFailedExecutionsPage: (server, limit, cursor) =>
+    createN8nClient(server).getExecutionsPage({ status: 'error' }, { limit, cursor }),
+};
+
+export interface ServerFailures {
+  server: N8nServer;
+  executions: N8nExecution[];
+  // Older new failures were left out after MAX_FAILURE_PAGES pages
+  more: boolean;
+}
+
+export interface FailureCheckResult {
+  // Only servers with new failures are listed
+  failures: ServerFailures[];
+  marks: HighWaterMarks;
+  errors: { serverId: string; message: string }[];
+}
+
+/**
+ * Order execution IDs: numerically when both are numbers (n8n IDs increase), as text otherwise
+ */
+export function compareExecutionIds(a: string, b: string): number {
+  const numberA = Number(a);
+  const numberB = Number(b);
+  if (!Number.isNaN(numberA) && !Number.isNaN(numberB)) {
+    return numberA - numberB;
+  }
+  return a.localeCompare(b);
+}
+
+/**
+ * Split a server's failed executions into the ones newer than its mark (oldest first) and the next mark
+ * Without a mark (first check) everything counts as seen, so old failures don't flood notifications
+ */
+export function diffFailures(
+  executions: N8nExecution[],
+  mark?: string
+): { newFailures: N8nExecution[]; mark: string } {
+  const sorted = [...executions].sort((a, b) => compareExecutionIds(a.id, b.id));
+  const newest = sorted[sorted.length - 1]?.id;
+
+  if (mark === undefined) {
+    return { newFailures: [], mark: newest ?? EMPTY_MARK };
+  }
+
+  const newFailures = sorted.filter(execution => compareExecutionIds(execution.id, mark) > 0);
+  const nextMark = newFailures.length > 0 ? newFailures[newFailures.length - 1].id : mark;
+  return { newFailures, mark: nextMark };
+}
+
+/**
+ * Fetch a server's failures newest first, page after page until one reaches its mark
+ * Without a mark the first page is enough, it only sets the mark
+ */
+async function fetchFailures(
+  server: N8nServer,
+  mark: string | undefined,
+  api: FailureMonitorApi
+): Promise<{ executions: N8nExecution[]; more: boolean }> {
+  const executions: N8nExecution[] = [];
+  let cursor: string | undefined;
+
+  for (let pages = 0; pages < MAX_FAILURE_PAGES; pages++) {
+    const page = await api.getFailedExecutionsPage(server, FAILURE_PAGE_SIZE, cursor);
+    executions.push(...page.data);
+
+    const reachedMark =
+      mark === undefined || page.data.some(execution => compareExecutionIds(execution.id, mark) <= 0);
+    if (reachedMark || !page.nextCursor) {
+      return { executions, more: false };
+    }
+    cursor = page.nextCursor;
+  }
+
+  return { executions, more: true };
+}
+
+/**
+ * Check every server for failures newer than its mark
+ * A server that can't be reached keeps its old mark; marks of removed servers are dropped
+ */
+export async function checkServersForFailures(
+  servers: N8nServer[],
+  marks: HighWaterMarks,
+  api: FailureMonitorApi = n8nFailureMonitorApi
+): Promise<FailureCheckResult> {
+  const responses = await Promise.allSettled(
+    servers.map(server => fetchFailures(server, marks[server.id], api))
+  );
+
+  const result: FailureCheckResult = { failures: [], marks: {}, errors: [] };
+
+  responses.forEach((response, index) => {
+    const server = servers[index];
+
+    if (response.status === 'rejected') {
+      if (marks[server.id] !== undefined) {
+        result.marks[server.id] = marks[server.id];
+      }
+      result.errors.push({
+        serverId: server.id,
+        message: response.reason instanceof Error ? response.reason.message : String(response.reason),
+      });
+      return;
+    }
+
+    const { newFailures, mark } = diffFailures(response.value.executions, marks[server.id]);
+    result.marks[server.id] = mark;
+    if (newFailures.length > 0) {
+      result.failures.push({ server, executions: newFailures, more: response.value.more });
+    }
+  });
+
+  return result;
+}
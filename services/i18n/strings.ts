@@ -1,5 +1,10 @@
+import { enUS, es, Locale } from 'date-fns/locale';
+
 export type Language = 'es' | 'en';
 
+// date-fns locale of each language, for month and weekday names
+export const DATE_LOCALES: Record<Language, Locale> = { es, en: enUS };
+
 export const translations = {
   es: {
     // General
@@ -38,6 +43,19 @@ export const translations = {
     serverUrl: 'URL del Servidor',
     apiKey: 'API Key',
     apiKeyHelp: 'Para crear un API Key: Configuración → API → Crear API Key en tu instancia de n8n',
+    advancedSettings: 'Opciones avanzadas',
+    apiBasePath: 'Ruta de la API',
+    apiBasePathHelp: 'Solo si un proxy sirve la API en otra ruta, relativa a la URL del servidor.',
+    customHeaders: 'Cabeceras personalizadas',
+    customHeadersHelp: 'Se envían en cada petición, p. ej. el token de Cloudflare Access. Se guardan cifradas.',
+    headerName: 'Nombre',
+    headerValue: 'Valor',
+    addHeader: 'Añadir cabecera',
+    reservedHeader: 'Esta cabecera ya la envía la app con la API key o el usuario del proxy',
+    basicAuth: 'Autenticación básica del proxy',
+    basicAuthHelp: 'Si un proxy (p. ej. nginx) pide usuario y contraseña antes de llegar a n8n. Se guardan cifrados.',
+    username: 'Usuario',
+    password: 'Contraseña',
     testConnection: 'Probar Conexión',
     connect: 'Conectar',
     online: 'EN LÍNEA',
@@ -47,6 +65,38 @@ export const translations = {
     serverSaved: 'Servidor guardado correctamente.',
     deleteServerTitle: 'Eliminar Servidor',
     deleteServerConfirm: '¿Estás seguro? Esto no se puede deshacer.',
+    connectionTest: 'Prueba de conexión',
+    connectionOk: 'Todo listo para conectar.',
+    connectionFailed: 'La conexión falló en el paso marcado.',
+    stepUrl: 'URL válida',
+    stepReachability: 'Servidor alcanzable (DNS y red)',
+    stepTls: 'Conexión segura (HTTPS)',
+    stepProxyAuth: 'Acceso a través del proxy',
+    stepApiPath: 'Ruta de la API pública',
+    stepAuth: 'API key aceptada',
+    stepWorkflows: 'Permiso para listar flujos',
+    stepExecutions: 'Permiso para listar ejecuciones',
+    stepLatency: 'Latencia',
+    invalidUrlHint: 'La URL debe comenzar con http:// o https://',
+    insecureConnectionHint: 'Sin cifrar: la API key viaja en texto plano.',
+    slowConnectionHint: 'El servidor responde despacio, las pantallas tardarán en cargar.',
+    compatibility: 'Compatibilidad',
+    compatibleServer: 'La app entiende las respuestas de este servidor.',
+    incompatibleServer: 'Algunas pantallas no funcionarán con este servidor.',
+    checkWorkflows: 'Lista de flujos',
+    checkExecutions: 'Lista de ejecuciones',
+    checkExecutionData: 'Datos de ejecución',
+    checkSkipped: 'No hay ejecuciones para comprobar.',
+    quirkBareArrayList: 'Listas sin paginación (versión antigua de n8n).',
+    quirkNumericIds: 'IDs numéricos (anterior a n8n 1.0).',
+    quirkMissingExecutionStatus: 'El servidor no envía el estado de las ejecuciones, se deduce.',
+    quirkUnknownExecutionStatus: 'Estados de ejecución nuevos, se muestran como el más parecido.',
+    unavailableFeatures: 'No disponible',
+    featureProjects: 'proyectos',
+    featureVariables: 'variables',
+    featureSourceControl: 'control de versiones',
+    featureExecutionRetry: 'reintentos',
+    featureExecutionStop: 'detener ejecuciones',
 
     // Workflow Detail
     activations: 'Ejecuciones',
@@ -66,6 +116,152 @@ export const translations = {
     workflowNamePlaceholder: 'Ingresa el nombre del workflow',
     saveChanges: 'Guardar Cambios',
     workflowUpdated: 'Workflow actualizado correctamente',
+    workflowGraph: 'Diagrama del Flujo',
+    graphHint: 'Mantén pulsado y arrastra para mover, pellizca para zoom, doble toque para ajustar',
+    executionGraph: 'Ver en el diagrama',
+    executed: 'Ejecutado',
+    notExecuted: 'No ejecutado',
+    failedNode: 'Nodo con error',
+    itemsOnEdge: 'Items por conexión',
+    failureNotifications: 'Avisar de ejecuciones fallidas',
+    failureNotificationsHint: 'Revisa tus servidores en segundo plano y te notifica cada nueva ejecución con error',
+    notificationsDenied: 'Activa los permisos de notificaciones en los ajustes del sistema',
+    executionFailed: 'Ejecución fallida',
+    moreFailures: 'ejecuciones fallidas más',
+    alertRules: 'Reglas de Alerta',
+    alertRulesSubtitle: 'Decide qué merece un aviso',
+    alertHistory: 'Historial',
+    newRule: 'Nueva Regla',
+    editRule: 'Editar Regla',
+    ruleName: 'Nombre de la regla',
+    ruleNamePlaceholder: 'Ej: Errores en producción',
+    condition: 'Condición',
+    conditionErrorCount: 'Errores repetidos',
+    conditionTaggedFailure: 'Falla un workflow con etiqueta',
+    conditionNoSuccess: 'Sin ejecuciones exitosas',
+    conditionLongRunning: 'Ejecución demasiado larga',
+    errorsLower: 'errores',
+    errorThreshold: 'Número de errores',
+    windowMinutes: 'En los últimos (minutos)',
+    hoursWithoutSuccess: 'Horas sin éxito',
+    maxMinutesRunning: 'Minutos en ejecución',
+    tag: 'Etiqueta',
+    tagPlaceholder: 'Ej: prod',
+    anyWorkflow: 'Cualquier workflow',
+    runningFor: 'en ejecución desde hace',
+    noRules: 'No hay reglas configuradas',
+    noRulesHint: 'Crea una regla para recibir solo los avisos que importan',
+    noAlerts: 'Todavía no se ha disparado ninguna alerta',
+    ruleSaved: 'Regla guardada',
+    ruleIncomplete: 'Completa el nombre, la condición y sus valores',
+    deleteRuleTitle: '¿Eliminar regla?',
+    deleteRuleConfirm: 'La regla dejará de evaluarse.',
+    evaluateNow: 'Evaluar ahora',
+    alertsFired: 'alertas disparadas',
+    noNewAlerts: 'Ninguna regla se ha cumplido',
+    selected: 'seleccionadas',
+    selectAll: 'Seleccionar todo',
+    deleteExecutions: 'Eliminar ejecuciones',
+    deleteExecutionsConfirm: 'Se eliminarán las ejecuciones seleccionadas. Esto no se puede deshacer.',
+    executionsDeleted: 'Ejecuciones eliminadas',
+    deletePartialFailure: 'Algunas ejecuciones no se pudieron eliminar',
+
+    // Execution Detail
+    confirm: 'Confirmar',
+    retryExecution: 'Reintentar ejecución',
+    retryWithCurrent: 'Con el flujo actual',
+    retryWithOriginal: 'Con el flujo original',
+    retryConfirm: 'Se lanzará una nueva ejecución a partir de esta ejecución fallida.',
+    retryFailed: 'No se pudo reintentar la ejecución',
+    retryChain: 'CADENA DE REINTENTOS',
+    retryOriginal: 'Original',
+    retryAttempt: 'Reintento',
+    stopExecution: 'Detener ejecución',
+    stopConfirm: '¿Quieres detener esta ejecución en curso?',
+    stopFailed: 'No se pudo detener la ejecución',
+
+    // Node Data
+    back: 'Volver',
+    nodeData: 'DATOS DEL NODO',
+    input: 'Entrada',
+    output: 'Salida',
+    run: 'Run',
+    items: 'items',
+    startTime: 'Inicio',
+    executionTime: 'Duración',
+    status: 'Estado',
+    searchData: 'Buscar en claves y valores...',
+    noItems: 'No hay items.',
+    noNodeData: 'No hay datos para este nodo.',
+    showMore: 'Mostrar más',
+    timing: 'TIEMPOS',
+    totalDuration: 'Duración total',
+    slowestNodes: 'Nodos más lentos',
+
+    // Schedule
+    schedule: 'Programación',
+    overdue: 'ATRASADO',
+    overdueHint: 'No se ha ejecutado en el intervalo esperado',
+    onSchedule: 'Al día',
+    every: 'Cada',
+    at: 'a las',
+    onDayOfMonth: 'el día',
+    maxInterval: 'Intervalo máximo',
+    lastRun: 'Última ejecución',
+    expectedBy: 'Esperada antes de',
+    neverRan: 'Nunca',
+    unitSeconds: 'segundos',
+    unitMinutes: 'minutos',
+    unitHours: 'horas',
+    unitDays: 'días',
+    unitWeeks: 'semanas',
+    unitMonths: 'meses',
+
+    // Dashboard
+    dashboard: 'Todos los servidores',
+    dashboardSubtitle: 'Estado de cada conexión',
+    offline: 'SIN CONEXIÓN',
+    current: 'ACTUAL',
+    errors24h: 'Errores 24h',
+    recentFailures: 'Fallos recientes (24h)',
+    noRecentFailures: 'Sin fallos en las últimas 24 horas.',
+
+    // Debug logs
+    debugLogging: 'Registro de depuración',
+    debugLoggingHint: 'Guarda la actividad de la API para diagnosticar problemas. Las claves y los datos personales se ocultan.',
+    viewLogs: 'Ver registros',
+    debugLogs: 'Registros',
+    noLogs: 'No hay registros.',
+    clear: 'Limpiar',
+
+    // Network console
+    networkLog: 'Consola de red',
+    noRequests: 'No hay peticiones registradas.',
+    networkLogDisabled: 'Activa el registro de depuración en los ajustes para capturar peticiones.',
+    copyCurl: 'Copiar como curl',
+    copied: 'Copiado',
+    requestHeaders: 'Cabeceras',
+    requestBody: 'Cuerpo de la petición',
+    responseBody: 'Respuesta',
+    pending: 'Pendiente',
+
+    // API errors
+    errorUnauthorized: 'La API key no es válida o ha caducado.',
+    errorProxyUnauthorized: 'Un proxy delante de n8n rechazó el usuario o la contraseña.',
+    errorForbidden: 'La API key no tiene permiso para hacer esto.',
+    errorNotFound: 'No existe en el servidor, puede que se haya eliminado.',
+    errorLicense: 'Tu licencia de n8n no incluye esta función.',
+    errorRateLimited: 'Demasiadas peticiones. Espera un momento y vuelve a intentarlo.',
+    errorNetwork: 'No se pudo conectar con el servidor. Revisa la URL y tu conexión.',
+    errorTimeout: 'El servidor tardó demasiado en responder.',
+    errorTls: 'No se pudo establecer una conexión segura. Revisa el certificado HTTPS del servidor.',
+    errorInvalidJson: 'El servidor no respondió con JSON. Comprueba que la URL apunta a n8n y no a un proxy o página de login.',
+    errorServer: 'El servidor n8n tuvo un error interno. Inténtalo de nuevo más tarde.',
+    errorUnexpectedResponse: 'El servidor respondió con datos en un formato inesperado. Puede que esta versión de n8n no sea compatible.',
+    errorUnknown: 'La petición falló.',
+    checkApiKey: 'Revisar API key',
+    checkProxyAuth: 'Revisar acceso al proxy',
+    checkServerUrl: 'Revisar servidor',
 
     // Settings
     language: 'Idioma',
@@ -109,6 +305,19 @@ export const translations = {
     serverUrl: 'Server URL',
     apiKey: 'API Key',
     apiKeyHelp: 'To create an API Key: Settings → API → Create API Key in your n8n instance',
+    advancedSettings: 'Advanced settings',
+    apiBasePath: 'API path',
+    apiBasePathHelp: 'Only when a proxy serves the API under another path, relative to the server URL.',
+    customHeaders: 'Custom headers',
+    customHeadersHelp: 'Sent with every request, e.g. a Cloudflare Access token. Stored encrypted.',
+    headerName: 'Name',
+    headerValue: 'Value',
+    addHeader: 'Add header',
+    reservedHeader: 'The app already sends this header with the API key or the proxy login',
+    basicAuth: 'Proxy basic auth',
+    basicAuthHelp: 'When a proxy (e.g. nginx) asks for a username and password before n8n. Stored encrypted.',
+    username: 'Username',
+    password: 'Password',
     testConnection: 'Test Connection',
     connect: 'Connect',
     online: 'ONLINE',
@@ -118,6 +327,38 @@ export const translations = {
     serverSaved: 'Server saved successfully.',
     deleteServerTitle: 'Delete Server',
     deleteServerConfirm: 'Are you sure? This cannot be undone.',
+    connectionTest: 'Connection test',
+    connectionOk: 'Ready to connect.',
+    connectionFailed: 'The connection failed at the marked step.',
+    stepUrl: 'Valid URL',
+    stepReachability: 'Server reachable (DNS and network)',
+    stepTls: 'Secure connection (HTTPS)',
+    stepProxyAuth: 'Access through the proxy',
+    stepApiPath: 'Public API path',
+    stepAuth: 'API key accepted',
+    stepWorkflows: 'Permission to list workflows',
+    stepExecutions: 'Permission to list executions',
+    stepLatency: 'Latency',
+    invalidUrlHint: 'The URL must start with http:// or https://',
+    insecureConnectionHint: 'Unencrypted: the API key is sent in plain text.',
+    slowConnectionHint: 'The server responds slowly, screens will take a while to load.',
+    compatibility: 'Compatibility',
+    compatibleServer: "The app understands this server's responses.",
+    incompatibleServer: "Some screens won't work with this server.",
+    checkWorkflows: 'Workflow list',
+    checkExecutions: 'Execution list',
+    checkExecutionData: 'Execution data',
+    checkSkipped: 'No executions to check.',
+    quirkBareArrayList: 'Lists without pagination (older n8n version).',
+    quirkNumericIds: 'Numeric IDs (before n8n 1.0).',
+    quirkMissingExecutionStatus: "The server doesn't send execution statuses, they're inferred.",
+    quirkUnknownExecutionStatus: 'Newer execution statuses, shown as the closest known one.',
+    unavailableFeatures: 'Not available',
+    featureProjects: 'projects',
+    featureVariables: 'variables',
+    featureSourceControl: 'source control',
+    featureExecutionRetry: 'retries',
+    featureExecutionStop: 'stopping executions',
 
     // Workflow Detail
     activations: 'Executions',
@@ -137,6 +378,152 @@ export const translations = {
     workflowNamePlaceholder: 'Enter workflow name',
     saveChanges: 'Save Changes',
     workflowUpdated: 'Workflow updated successfully',
+    workflowGraph: 'Workflow Graph',
+    graphHint: 'Hold and drag to pan, pinch to zoom, double tap to fit',
+    executionGraph: 'View on graph',
+    executed: 'Executed',
+    notExecuted: 'Not executed',
+    failedNode: 'Failed node',
+    itemsOnEdge: 'Items per connection',
+    failureNotifications: 'Notify failed executions',
+    failureNotificationsHint: 'Checks your servers in the background and notifies you of every new failed execution',
+    notificationsDenied: 'Enable notification permissions in the system settings',
+    executionFailed: 'Execution failed',
+    moreFailures: 'more failed executions',
+    alertRules: 'Alert Rules',
+    alertRulesSubtitle: 'Decide what deserves a ping',
+    alertHistory: 'History',
+    newRule: 'New Rule',
+    editRule: 'Edit Rule',
+    ruleName: 'Rule name',
+    ruleNamePlaceholder: 'E.g. Production errors',
+    condition: 'Condition',
+    conditionErrorCount: 'Repeated errors',
+    conditionTaggedFailure: 'Tagged workflow fails',
+    conditionNoSuccess: 'No successful execution',
+    conditionLongRunning: 'Execution running too long',
+    errorsLower: 'errors',
+    errorThreshold: 'Number of errors',
+    windowMinutes: 'Within the last (minutes)',
+    hoursWithoutSuccess: 'Hours without success',
+    maxMinutesRunning: 'Minutes running',
+    tag: 'Tag',
+    tagPlaceholder: 'E.g. prod',
+    anyWorkflow: 'Any workflow',
+    runningFor: 'running for',
+    noRules: 'No rules configured',
+    noRulesHint: 'Create a rule to only get the alerts that matter',
+    noAlerts: 'No alerts have fired yet',
+    ruleSaved: 'Rule saved',
+    ruleIncomplete: 'Fill in the name, the condition and its values',
+    deleteRuleTitle: 'Delete rule?',
+    deleteRuleConfirm: 'The rule will no longer be evaluated.',
+    evaluateNow: 'Evaluate now',
+    alertsFired: 'alerts fired',
+    noNewAlerts: 'No rule matched',
+    selected: 'selected',
+    selectAll: 'Select all',
+    deleteExecutions: 'Delete executions',
+    deleteExecutionsConfirm: 'The selected executions will be deleted. This cannot be undone.',
+    executionsDeleted: 'Executions deleted',
+    deletePartialFailure: 'Some executions could not be deleted',
+
+    // Execution Detail
+    confirm: 'Confirm',
+    retryExecution: 'Retry execution',
+    retryWithCurrent: 'With current workflow',
+    retryWithOriginal: 'With original workflow',
+    retryConfirm: 'A new execution will be started from this failed execution.',
+    retryFailed: 'Could not retry the execution',
+    retryChain: 'RETRY CHAIN',
+    retryOriginal: 'Original',
+    retryAttempt: 'Retry',
+    stopExecution: 'Stop execution',
+    stopConfirm: 'Do you want to stop this running execution?',
+    stopFailed: 'Could not stop the execution',
+
+    // Node Data
+    back: 'Back',
+    nodeData: 'NODE DATA',
+    input: 'Input',
+    output: 'Output',
+    run: 'Run',
+    items: 'items',
+    startTime: 'Start',
+    executionTime: 'Duration',
+    status: 'Status',
+    searchData: 'Search keys and values...',
+    noItems: 'No items.',
+    noNodeData: 'No data for this node.',
+    showMore: 'Show more',
+    timing: 'TIMING',
+    totalDuration: 'Total duration',
+    slowestNodes: 'Slowest nodes',
+
+    // Schedule
+    schedule: 'Schedule',
+    overdue: 'OVERDUE',
+    overdueHint: "Hasn't run within the expected interval",
+    onSchedule: 'On schedule',
+    every: 'Every',
+    at: 'at',
+    onDayOfMonth: 'on day',
+    maxInterval: 'Max interval',
+    lastRun: 'Last run',
+    expectedBy: 'Expected by',
+    neverRan: 'Never',
+    unitSeconds: 'seconds',
+    unitMinutes: 'minutes',
+    unitHours: 'hours',
+    unitDays: 'days',
+    unitWeeks: 'weeks',
+    unitMonths: 'months',
+
+    // Dashboard
+    dashboard: 'All servers',
+    dashboardSubtitle: 'Health of every connection',
+    offline: 'OFFLINE',
+    current: 'CURRENT',
+    errors24h: 'Errors 24h',
+    recentFailures: 'Recent failures (24h)',
+    noRecentFailures: 'No failures in the last 24 hours.',
+
+    // Debug logs
+    debugLogging: 'Debug logging',
+    debugLoggingHint: 'Records API activity to troubleshoot problems. Keys and personal data are hidden.',
+    viewLogs: 'View logs',
+    debugLogs: 'Logs',
+    noLogs: 'No logs.',
+    clear: 'Clear',
+
+    // Network console
+    networkLog: 'Network console',
+    noRequests: 'No requests recorded.',
+    networkLogDisabled: 'Turn on debug logging in settings to capture requests.',
+    copyCurl: 'Copy as curl',
+    copied: 'Copied',
+    requestHeaders: 'Headers',
+    requestBody: 'Request body',
+    responseBody: 'Response',
+    pending: 'Pending',
+
+    // API errors
+    errorUnauthorized: 'The API key is invalid or has expired.',
+    errorProxyUnauthorized: 'A proxy in front of n8n rejected the username or password.',
+    errorForbidden: 'The API key is not allowed to do this.',
+    errorNotFound: "It doesn't exist on the server, it may have been deleted.",
+    errorLicense: "Your n8n license doesn't include this feature.",
+    errorRateLimited: 'Too many requests. Wait a moment and try again.',
+    errorNetwork: 'Could not reach the server. Check the URL and your connection.',
+    errorTimeout: 'The server took too long to respond.',
+    errorTls: "Couldn't establish a secure connection. Check the server's HTTPS certificate.",
+    errorInvalidJson: "The server didn't respond with JSON. Make sure the URL points to n8n and not to a proxy or login page.",
+    errorServer: 'The n8n server had an internal error. Try again later.',
+    errorUnexpectedResponse: 'The server answered with data in an unexpected format. This n8n version may not be supported.',
+    errorUnknown: 'The request failed.',
+    checkApiKey: 'Check API key',
+    checkProxyAuth: 'Check proxy access',
+    checkServerUrl: 'Check server',
 
     // Settings
     language: 'Language',
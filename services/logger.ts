@@ -0,0 +1,182 @@
+/**
+ * Logger
+ * Leveled logging with pluggable sinks. Everything passed in is redacted before it
+ * reaches a sink, so API keys and personal data never end up in the console or the
+ * in-app log viewer. Off in production builds until it's turned on from settings
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  // Module that logged it (e.g. "n8n-api")
+  scope: string;
+  message: string;
+  data?: unknown;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Entries kept in memory for the log viewer
+const MAX_ENTRIES = 300;
+// Longer strings are cut, response payloads don't belong in logs
+const MAX_STRING_LENGTH = 300;
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 5;
+
+export const REDACTED = '[REDACTED]';
+
+// Keys whose values are always hidden
+const SECRET_KEY_PATTERN = /api[-_]?key|authorization|password|passwd|secret|token|cookie|session/i;
+const PII_KEY_PATTERN = /e-?mail|phone|address|first_?name|last_?name|full_?name|birth/i;
+
+// Secrets and personal data that show up inside plain strings
+const STRING_PATTERNS: [RegExp, string][] = [
+  // JWTs, which is what n8n API keys are
+  [/eyJ[\w-]+\.[\w-]+\.[\w-]+/g, REDACTED],
+  [/(bearer|basic)\s+[\w.+/=-]+/gi, `$1 ${REDACTED}`],
+  [/((?:api[-_]?key|token|password)=)[^&\s]+/gi, `$1${REDACTED}`],
+  [/[\w.+-]+@[\w-]+\.[\w.-]+/g, '[email]'],
+];
+
+let enabled = __DEV__;
+let minLevel: LogLevel = 'debug';
+let nextId = 1;
+let entries: LogEntry[] = [];
+const listeners = new Set<() => void>();
+
+function redactString(value: string): string {
+  const redacted = STRING_PATTERNS.reduce(
+    (text, [pattern, replacement]) => text.replace(pattern, replacement),
+    value
+  );
+  return redacted.length > MAX_STRING_LENGTH
+    ? `${redacted.slice(0, MAX_STRING_LENGTH)}… (${redacted.length} chars)`
+    : redacted;
+}
+
+/**
+ * Copy of a value with secrets and PII-like fields masked and large payloads trimmed
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Error) return { name: value.name, message: redactString(value.message) };
+  if (depth >= MAX_DEPTH) return '[…]';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => redact(item, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) items.push(`… ${value.length - MAX_ARRAY_ITEMS} more`);
+    return items;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) || PII_KEY_PATTERN.test(key) ? REDACTED : redact(item, depth + 1),
+    ])
+  );
+}
+
+/**
+ * Default sink: the developer console
+ */
+const consoleSink: LogSink = ({ level, scope, message, data }) => {
+  const args = data === undefined ? [`[${scope}] ${message}`] : [`[${scope}] ${message}`, data];
+  if (level === 'error') console.error(...args);
+  else if (level === 'warn') console.warn(...args);
+  else console.log(...args);
+};
+
+/**
+ * Default sink: the in-memory buffer behind the log viewer
+ */
+const memorySink: LogSink = entry => {
+  entries = [...entries, entry].slice(-MAX_ENTRIES);
+  listeners.forEach(listener => listener());
+};
+
+const sinks = new Set<LogSink>([consoleSink, memorySink]);
+
+/**
+ * Send log entries somewhere else too (e.g. a crash reporter). Returns a remove function
+ */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+/**
+ * Turn logging on or off and pick the lowest level recorded
+ */
+export function configureLogger(options: { enabled?: boolean; level?: LogLevel }): void {
+  if (options.enabled !== undefined) enabled = options.enabled;
+  if (options.level !== undefined) minLevel = options.level;
+}
+
+export function isLoggingEnabled(): boolean {
+  return enabled;
+}
+
+function write(level: LogLevel, scope: string, message: string, data?: unknown): void {
+  if (!enabled || LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) return;
+
+  const entry: LogEntry = {
+    id: nextId++,
+    timestamp: Date.now(),
+    level,
+    scope,
+    message: redactString(message),
+    data: data === undefined ? undefined : redact(data),
+  };
+
+  sinks.forEach(sink => {
+    try {
+      sink(entry);
+    } catch {
+      // A broken sink must not break the caller
+    }
+  });
+}
+
+/**
+ * Logger for one module
+ */
+export function createLogger(scope: string) {
+  return {
+    debug: (message: string, data?: unknown) => write('debug', scope, message, data),
+    info: (message: string, data?: unknown) => write('info', scope, message, data),
+    warn: (message: string, data?: unknown) => write('warn', scope, message, data),
+    error: (message: string, data?: unknown) => write('error', scope, message, data),
+  };
+}
+
+export type Logger = ReturnType<typeof createLogger>;
+
+/**
+ * Entries recorded so far, oldest first
+ */
+export function getLogEntries(): LogEntry[] {
+  return entries;
+}
+
+export function clearLogEntries(): void {
+  entries = [];
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Get notified whenever entries change. Returns an unsubscribe function
+ */
+export function subscribeToLogs(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -1,185 +1,701 @@
-import { getN8nConfig } from './storage';
-import { N8nWorkflow, N8nListResponse, N8nExecution } from '@/types/n8n';
+import {
+  ExecutionQuery,
+  N8nBasicAuth,
+  N8nConfig,
+  N8nWorkflow,
+  N8nListResponse,
+  N8nExecution,
+  N8nServer,
+} from '@/types/n8n';
+import {
+  errorKindFromException,
+  errorKindFromStatus,
+  N8nApiError,
+  parseErrorBody,
+} from './api-errors';
+import {
+  N8nServerSettings,
+  parseExecution,
+  ParseOptions,
+  Parser,
+  parseList,
+  parseServerSettings,
+  parseWorkflow,
+} from './api-schema';
+import { createLogger } from './logger';
+import { recordRequest } from './network-log';
 
 /**
  * n8n API Client
- * Handles all communication with the n8n REST API
+ * Handles all communication with the n8n REST API.
+ * Each client is bound to one server, so a request never picks up a server switch halfway
  */
 
-class N8nApiError extends Error {
-  constructor(message: string, public status?: number) {
-    super(message);
-    this.name = 'N8nApiError';
-  }
-}
+const log = createLogger('n8n-api');
+
+// Where the public API lives, relative to the server URL, unless the server overrides it
+export const API_BASE_PATH = '/api/v1';
+
+// Per attempt, so a hanging server fails instead of spinning forever
+const REQUEST_TIMEOUT_MS = 20_000;
+// Quick requests (diagnostics, capability probes) get one attempt this long
+const QUICK_REQUEST_TIMEOUT_MS = 5_000;
+// Extra attempts for GETs, mutations are never repeated
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
 
 /**
- * Base API request handler
+ * Options for a single request
  */
-async function apiRequest<T>(
-  endpoint: string,
-  options?: RequestInit
-): Promise<T> {
-  const config = await getN8nConfig();
+export interface RequestOptions extends ParseOptions {
+  // Cancels the request, e.g. React Query's signal when the screen unmounts
+  signal?: AbortSignal;
+  // One short attempt without retries, for checks that should fail fast on a dead host
+  quick?: boolean;
+}
 
-  if (!config) {
-    throw new N8nApiError('No n8n configuration found');
-  }
+/**
+ * Retry-After is either seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
 
-  const url = `${config.serverUrl}/api/v1${endpoint}`;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : new Date(header).getTime() - Date.now();
+  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), MAX_RETRY_DELAY_MS) : undefined;
+}
 
-  try {
-    console.log('[n8n-api] Fetching:', url);
-    console.log('[n8n-api] API Key:', config.apiKey.substring(0, 10) + '...');
-
-    const fetchOptions = {
-      ...options,
-      headers: {
-        'X-N8N-API-KEY': config.apiKey,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        ...options?.headers,
-      },
+/**
+ * Wait before the next attempt, giving up early if the request is cancelled
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error('Aborted'));
     };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Authorization header for a Basic auth proxy, UTF-8 encoded like browsers do
+ */
+function basicAuthorization({ username, password }: N8nBasicAuth): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+}
 
-    console.log('[n8n-api] Request headers:', JSON.stringify(fetchOptions.headers, null, 2));
+/**
+ * Headers the app sends itself for a server, custom headers can't use these names
+ * Authorization is only taken when the server has a proxy login
+ */
+export function getReservedHeaders(config: Pick<N8nConfig, 'basicAuth'>): string[] {
+  return config.basicAuth ? ['X-N8N-API-KEY', 'Authorization'] : ['X-N8N-API-KEY'];
+}
 
-    const response = await fetch(url, fetchOptions);
+/**
+ * Whether two configs reach the API the same way: same URL, path, key, headers and proxy login
+ * When they don't, whatever was learned through one doesn't hold for the other
+ */
+export function isSameConnection(a: N8nConfig, b: N8nConfig): boolean {
+  return (
+    a.serverUrl === b.serverUrl &&
+    a.apiKey === b.apiKey &&
+    (a.apiBasePath || API_BASE_PATH) === (b.apiBasePath || API_BASE_PATH) &&
+    JSON.stringify(a.customHeaders ?? []) === JSON.stringify(b.customHeaders ?? []) &&
+    JSON.stringify(a.basicAuth ?? null) === JSON.stringify(b.basicAuth ?? null)
+  );
+}
 
-    console.log('[n8n-api] Response status:', response.status);
-    console.log('[n8n-api] Response headers:', JSON.stringify(
-      Object.fromEntries(response.headers.entries()),
-      null,
-      2
-    ));
+/**
+ * Send one attempt of a request
+ * Every attempt is also captured in the network log while debug logging is on
+ */
+async function sendRequest(
+  config: N8nConfig,
+  endpoint: string,
+  options: RequestInit,
+  basePath: string,
+  timeoutMs: number
+): Promise<unknown> {
+  const url = `${config.serverUrl}${basePath}${endpoint}`;
+  const method = options.method ?? 'GET';
+  const authHeaders: Record<string, string> = {
+    'X-N8N-API-KEY': config.apiKey,
+    ...(config.basicAuth && { Authorization: basicAuthorization(config.basicAuth) }),
+  };
+  // Header names ignore case, a custom "authorization" would otherwise be sent alongside
+  const reserved = getReservedHeaders(config).map(name => name.toLowerCase());
+  const customHeaders = (config.customHeaders ?? []).filter(
+    header => header.name && !reserved.includes(header.name.toLowerCase())
+  );
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+    ...Object.fromEntries(customHeaders.map(header => [header.name, header.value])),
+    ...(options.headers as Record<string, string> | undefined),
+    // Last, nothing replaces the credentials
+    ...authHeaders,
+  };
+  const capture = recordRequest({
+    serverId: config.id,
+    method,
+    url,
+    headers,
+    // Custom headers tend to carry proxy credentials
+    secretHeaders: customHeaders.map(header => header.name),
+    body: options.body,
+  });
+
+  // One controller for both the timeout and the caller's signal
+  const controller = new AbortController();
+  const callerSignal = options.signal;
+  const abortFromCaller = () => controller.abort();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  if (callerSignal?.aborted) controller.abort();
+  callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+
+  try {
+    log.debug(`${method} ${url}`);
+
+    const response = await fetch(url, { ...options, headers, signal: controller.signal });
 
     if (!response.ok) {
       let errorMessage = `API request failed: ${response.statusText} (${response.status})`;
+      let errorBody: string | undefined;
 
       try {
-        const errorBody = await response.text();
-        console.log('[n8n-api] Error body:', errorBody);
+        errorBody = await response.text();
         if (errorBody) {
           errorMessage += `\n${errorBody}`;
         }
       } catch (e) {
-        console.log('[n8n-api] Could not parse error body:', e);
+        log.debug('Could not read error body', e);
       }
 
-      throw new N8nApiError(errorMessage, response.status);
+      capture.response(response.status, errorBody);
+      const serverMessage = parseErrorBody(errorBody);
+      throw new N8nApiError(
+        errorMessage,
+        errorKindFromStatus(
+          response.status,
+          serverMessage,
+          response.headers.get('WWW-Authenticate')
+        ),
+        response.status,
+        serverMessage,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
     }
 
-    const data = await response.json();
-    console.log('[n8n-api] Response data type:', Array.isArray(data) ? 'array' : typeof data);
-    console.log('[n8n-api] Response data keys:', Object.keys(data));
+    // Read as text first so a mangled (non-JSON) response still shows up in the network log
+    const text = await response.text();
+    capture.response(response.status, text);
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      // It answered, just not with JSON (e.g. an HTML page from a proxy)
+      const message = `Invalid JSON response: ${error instanceof Error ? error.message : error}`;
+      throw new N8nApiError(message, 'invalidJson', response.status);
+    }
+    log.debug(`${method} ${url} → ${response.status}`, {
+      items: Array.isArray(data) ? data.length : Array.isArray(data?.data) ? data.data.length : undefined,
+    });
     return data;
   } catch (error) {
     if (error instanceof N8nApiError) {
-      console.log('[n8n-api] N8nApiError:', error.message);
+      log.warn(`${method} ${url} failed`, { kind: error.kind, status: error.status, message: error.message });
+      throw error;
+    }
+
+    // Cancelled by the caller: let the abort error through untouched
+    if (callerSignal?.aborted) {
+      capture.failure('Cancelled');
       throw error;
     }
 
+    if (timedOut) {
+      const message = `Request timed out after ${timeoutMs / 1000} s`;
+      capture.failure(message);
+      log.error(`${method} ${url} failed`, { message });
+      // A server that hung once would likely hang again, not retried
+      throw new N8nApiError(message, 'timeout');
+    }
+
     const errorMessage = error instanceof Error
       ? `Network error: ${error.message}`
       : 'Unknown error occurred';
 
-    console.log('[n8n-api] Unexpected error:', errorMessage);
-    console.log('[n8n-api] Error stack:', error instanceof Error ? error.stack : 'No stack');
-    throw new N8nApiError(errorMessage);
+    capture.failure(errorMessage);
+    log.error(`${method} ${url} failed`, { message: errorMessage });
+    throw new N8nApiError(errorMessage, errorKindFromException(error));
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', abortFromCaller);
   }
 }
 
 /**
- * Get all workflows
+ * Base API request handler
+ * GETs are retried with exponential backoff (or the server's Retry-After);
+ * anything else runs once, a repeated activate or retry could run twice.
+ * Quick requests get a single short attempt
  */
-export async function getWorkflows(): Promise<N8nWorkflow[]> {
-  const response = await apiRequest<N8nListResponse<N8nWorkflow> | N8nWorkflow[]>(
-    '/workflows'
-  );
+async function apiRequest(
+  config: N8nConfig,
+  endpoint: string,
+  options: RequestInit = {},
+  { basePath = config.apiBasePath || API_BASE_PATH, quick = false } = {}
+): Promise<unknown> {
+  const method = options.method ?? 'GET';
+  const maxRetries = method === 'GET' && !quick ? MAX_RETRIES : 0;
+  const timeoutMs = quick ? QUICK_REQUEST_TIMEOUT_MS : REQUEST_TIMEOUT_MS;
 
-  // Handle both response formats: {data: []} and direct array []
-  if (Array.isArray(response)) {
-    return response;
-  }
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendRequest(config, endpoint, options, basePath, timeoutMs);
+    } catch (error) {
+      if (!(error instanceof N8nApiError) || !error.retryable || attempt >= maxRetries) {
+        throw error;
+      }
 
-  return response.data;
+      const delay =
+        error.retryAfterMs ?? Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+      log.info(`Retrying ${method} ${endpoint} in ${delay} ms (${attempt + 1}/${maxRetries})`);
+      await sleep(delay, options.signal);
+    }
+  }
 }
 
 /**
- * Get a single workflow by ID
+ * Check a response against its schema, the raw body is in the network log
  */
-export async function getWorkflow(id: string): Promise<N8nWorkflow> {
-  return await apiRequest<N8nWorkflow>(`/workflows/${id}`);
+function parseResponse<T>(
+  endpoint: string,
+  value: unknown,
+  parse: Parser<T>,
+  options: ParseOptions
+): T {
+  try {
+    return parse(value, 'response', options);
+  } catch (error) {
+    log.warn(`Unexpected response from ${endpoint}`, {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
 }
 
 /**
- * Activate a workflow
+ * Pagination parameters accepted by list endpoints
  */
-export async function activateWorkflow(id: string): Promise<N8nWorkflow> {
-  return await apiRequest<N8nWorkflow>(`/workflows/${id}/activate`, {
-    method: 'POST',
-  });
+export interface N8nPageParams {
+  limit?: number;
+  cursor?: string;
 }
 
+const DEFAULT_PAGE_SIZE = 100;
+// Requests in flight during bulk deletes, mutations aren't retried when the server throttles
+const DELETE_BATCH_SIZE = 5;
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
 /**
- * Deactivate a workflow
+ * Build a query string from defined params (RN's URLSearchParams is incomplete)
  */
-export async function deactivateWorkflow(id: string): Promise<N8nWorkflow> {
-  return await apiRequest<N8nWorkflow>(`/workflows/${id}/deactivate`, {
-    method: 'POST',
-  });
+function buildQuery(params: QueryParams): string {
+  const parts = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+
+  return parts.length > 0 ? `?${parts.join('&')}` : '';
 }
 
 /**
- * Get workflow executions
+ * Fetch a single page from a list endpoint
  */
-export async function getExecutions(
-  workflowId?: string
-): Promise<N8nExecution[]> {
-  const endpoint = workflowId
-    ? `/executions?workflowId=${workflowId}`
-    : '/executions';
-  const response = await apiRequest<N8nListResponse<N8nExecution>>(endpoint);
-  return response.data;
+async function getPage<T>(
+  config: N8nConfig,
+  endpoint: string,
+  params: QueryParams,
+  parseItem: Parser<T>,
+  options: RequestOptions = {}
+): Promise<N8nListResponse<T>> {
+  const response = await apiRequest(
+    config,
+    `${endpoint}${buildQuery(params)}`,
+    { signal: options.signal },
+    { quick: options.quick }
+  );
+
+  return parseResponse(
+    endpoint,
+    response,
+    (value, path, parseOptions) => parseList(value, path, parseItem, parseOptions),
+    options
+  );
 }
 
 /**
- * Get a single execution by ID
- * includeData=true returns full execution data including node results
+ * Walk every page of a list endpoint following nextCursor
  */
-export async function getExecution(id: string): Promise<N8nExecution> {
-  return await apiRequest<N8nExecution>(`/executions/${id}?includeData=true`);
+async function* paginate<T>(
+  config: N8nConfig,
+  endpoint: string,
+  params: QueryParams,
+  parseItem: Parser<T>,
+  options: RequestOptions = {}
+): AsyncGenerator<T> {
+  let cursor: string | undefined;
+
+  do {
+    const page = await getPage(config, endpoint, { ...params, cursor }, parseItem, options);
+    yield* page.data;
+    cursor = page.nextCursor;
+  } while (cursor);
 }
 
 /**
- * Update workflow (name, tags, etc.)
- * Note: n8n API requires specific fields only
+ * Map an ExecutionQuery to n8n query params
  */
-export async function updateWorkflow(
-  id: string,
-  workflow: N8nWorkflow,
-  updates: { name?: string }
-): Promise<N8nWorkflow> {
-  // Send minimal required fields for update
-  const updatePayload: any = {
-    name: updates.name ?? workflow.name,
-    nodes: workflow.nodes ?? [],
-    connections: (workflow as any).connections ?? {},
+function executionQueryParams(query: ExecutionQuery): QueryParams {
+  return {
+    status: query.status,
+    workflowId: query.workflowId,
+    projectId: query.projectId,
+    includeData: query.includeData,
+    startedAfter: query.startedAfter?.toISOString(),
+    startedBefore: query.startedBefore?.toISOString(),
   };
+}
+
+/**
+ * Apply the date window locally too: servers that don't know
+ * startedAfter/startedBefore ignore them and return everything
+ */
+function isWithinStartedRange(execution: N8nExecution, query: ExecutionQuery): boolean {
+  const startedAt = new Date(execution.startedAt);
+  if (query.startedAfter && startedAt < query.startedAfter) return false;
+  if (query.startedBefore && startedAt > query.startedBefore) return false;
+  return true;
+}
+
+/**
+ * Outcome of a bulk delete, reported per execution ID
+ */
+export interface BulkDeleteResult {
+  deleted: string[];
+  failed: { id: string; error: unknown }[];
+}
 
-  // Only include optional fields if they exist
-  if ((workflow as any).settings) {
-    updatePayload.settings = {};
+/**
+ * Create an API client bound to one server
+ */
+export function createN8nClient(server: N8nServer) {
+  const request = async <T>(
+    endpoint: string,
+    parse: Parser<T>,
+    init?: RequestInit,
+    options: ParseOptions = {}
+  ): Promise<T> => parseResponse(endpoint, await apiRequest(server, endpoint, init), parse, options);
+
+  /**
+   * Get one page of workflows
+   */
+  async function getWorkflowsPage(
+    params: N8nPageParams = {},
+    options: RequestOptions = {}
+  ): Promise<N8nListResponse<N8nWorkflow>> {
+    return await getPage(
+      server,
+      '/workflows',
+      { limit: params.limit, cursor: params.cursor },
+      parseWorkflow,
+      options
+    );
   }
-  if ((workflow as any).staticData !== undefined) {
-    updatePayload.staticData = (workflow as any).staticData;
+
+  /**
+   * Iterate over all workflows, fetching pages lazily
+   */
+  function iterateWorkflows(
+    limit: number = DEFAULT_PAGE_SIZE,
+    options: RequestOptions = {}
+  ): AsyncGenerator<N8nWorkflow> {
+    return paginate(server, '/workflows', { limit }, parseWorkflow, options);
   }
-  if (workflow.tags && workflow.tags.length > 0) {
-    updatePayload.tags = workflow.tags.map(tag => tag.id);
+
+  /**
+   * Get all workflows (every page)
+   */
+  async function getWorkflows(options: RequestOptions = {}): Promise<N8nWorkflow[]> {
+    const workflows: N8nWorkflow[] = [];
+    for await (const workflow of iterateWorkflows(DEFAULT_PAGE_SIZE, options)) {
+      workflows.push(workflow);
+    }
+    return workflows;
   }
 
-  return await apiRequest<N8nWorkflow>(`/workflows/${id}`, {
-    method: 'PUT',
-    body: JSON.stringify(updatePayload),
-  });
+  /**
+   * Get a single workflow by ID
+   */
+  async function getWorkflow(id: string, options: RequestOptions = {}): Promise<N8nWorkflow> {
+    return await request(`/workflows/${id}`, parseWorkflow, { signal: options.signal }, options);
+  }
+
+  /**
+   * Activate a workflow
+   */
+  async function activateWorkflow(id: string): Promise<N8nWorkflow> {
+    return await request(`/workflows/${id}/activate`, parseWorkflow, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Deactivate a workflow
+   */
+  async function deactivateWorkflow(id: string): Promise<N8nWorkflow> {
+    return await request(`/workflows/${id}/deactivate`, parseWorkflow, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Update workflow (name, tags, etc.)
+   * Note: n8n API requires specific fields only
+   */
+  async function updateWorkflow(
+    id: string,
+    workflow: N8nWorkflow,
+    updates: { name?: string }
+  ): Promise<N8nWorkflow> {
+    // Send minimal required fields for update
+    const updatePayload: any = {
+      name: updates.name ?? workflow.name,
+      nodes: workflow.nodes ?? [],
+      connections: workflow.connections ?? {},
+    };
+
+    // Only include optional fields if they exist
+    if (workflow.settings) {
+      updatePayload.settings = {};
+    }
+    if (workflow.staticData !== undefined) {
+      updatePayload.staticData = workflow.staticData;
+    }
+    if (workflow.tags && workflow.tags.length > 0) {
+      updatePayload.tags = workflow.tags.map(tag => tag.id);
+    }
+
+    return await request(`/workflows/${id}`, parseWorkflow, {
+      method: 'PUT',
+      body: JSON.stringify(updatePayload),
+    });
+  }
+
+  /**
+   * Get one page of executions matching a query
+   */
+  async function getExecutionsPage(
+    query: ExecutionQuery = {},
+    params: N8nPageParams = {},
+    options: RequestOptions = {}
+  ): Promise<N8nListResponse<N8nExecution>> {
+    const page = await getPage(
+      server,
+      '/executions',
+      { ...executionQueryParams(query), limit: params.limit, cursor: params.cursor },
+      parseExecution,
+      options
+    );
+
+    // Executions come newest first: once a page reaches past startedAfter, the next ones
+    // only hold older executions (servers that ignore the filter would page through them all)
+    const last = page.data[page.data.length - 1];
+    const pastWindow =
+      !!query.startedAfter && !!last && new Date(last.startedAt) < query.startedAfter;
+
+    return {
+      data: page.data.filter(e => isWithinStartedRange(e, query)),
+      nextCursor: pastWindow ? undefined : page.nextCursor,
+    };
+  }
+
+  /**
+   * Iterate over all executions matching a query, fetching pages lazily
+   */
+  async function* iterateExecutions(
+    query: ExecutionQuery = {},
+    limit: number = DEFAULT_PAGE_SIZE,
+    options: RequestOptions = {}
+  ): AsyncGenerator<N8nExecution> {
+    for await (const execution of paginate(
+      server,
+      '/executions',
+      { ...executionQueryParams(query), limit },
+      parseExecution,
+      options
+    )) {
+      // Executions come newest first, so nothing after this one can match startedAfter
+      if (query.startedAfter && new Date(execution.startedAt) < query.startedAfter) {
+        return;
+      }
+      if (isWithinStartedRange(execution, query)) {
+        yield execution;
+      }
+    }
+  }
+
+  /**
+   * Get all executions matching a query (every page)
+   */
+  async function getExecutions(
+    query: ExecutionQuery = {},
+    options: RequestOptions = {}
+  ): Promise<N8nExecution[]> {
+    const executions: N8nExecution[] = [];
+    for await (const execution of iterateExecutions(query, DEFAULT_PAGE_SIZE, options)) {
+      executions.push(execution);
+    }
+    return executions;
+  }
+
+  /**
+   * Get a single execution by ID
+   * includeData=true returns full execution data including node results
+   */
+  async function getExecution(id: string, options: RequestOptions = {}): Promise<N8nExecution> {
+    return await request(
+      `/executions/${id}?includeData=true`,
+      parseExecution,
+      { signal: options.signal },
+      options
+    );
+  }
+
+  /**
+   * Retry a failed execution
+   * loadWorkflow=true runs the current workflow version instead of the one saved with the execution
+   */
+  async function retryExecution(
+    id: string,
+    options: { loadWorkflow?: boolean } = {}
+  ): Promise<N8nExecution> {
+    return await request(`/executions/${id}/retry`, parseExecution, {
+      method: 'POST',
+      body: JSON.stringify({ loadWorkflow: options.loadWorkflow ?? false }),
+    });
+  }
+
+  /**
+   * Stop a running execution
+   */
+  async function stopExecution(id: string): Promise<N8nExecution> {
+    return await request(`/executions/${id}/stop`, parseExecution, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Delete a single execution
+   */
+  async function deleteExecution(id: string): Promise<N8nExecution> {
+    return await request(`/executions/${id}`, parseExecution, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Delete several executions
+   * The API has no bulk endpoint, so each ID is deleted on its own, a few at a time,
+   * and failures are collected
+   */
+  async function deleteExecutions(ids: string[]): Promise<BulkDeleteResult> {
+    const result: BulkDeleteResult = { deleted: [], failed: [] };
+
+    for (let start = 0; start < ids.length; start += DELETE_BATCH_SIZE) {
+      const batch = ids.slice(start, start + DELETE_BATCH_SIZE);
+      const settled = await Promise.allSettled(batch.map(id => deleteExecution(id)));
+
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          result.deleted.push(batch[index]);
+        } else {
+          result.failed.push({ id: batch[index], error: outcome.reason });
+        }
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * GET an endpoint only to see how the server answers (capability probes), in one quick attempt.
+   * Throws like any request when it isn't a 2xx
+   */
+  async function probe(endpoint: string): Promise<void> {
+    await apiRequest(server, endpoint, {}, { quick: true });
+  }
+
+  /**
+   * Health check outside the public API, n8n answers it without an API key
+   */
+  async function ping(options: RequestOptions = {}): Promise<void> {
+    await apiRequest(
+      server,
+      '/healthz',
+      { signal: options.signal },
+      { basePath: '', quick: options.quick }
+    );
+  }
+
+  /**
+   * Version and license flags, read from the instance settings outside the public API
+   */
+  async function getServerSettings(options: RequestOptions = {}): Promise<N8nServerSettings> {
+    const settings = await apiRequest(
+      server,
+      '/rest/settings',
+      { signal: options.signal },
+      { basePath: '', quick: options.quick }
+    );
+    return parseResponse('/rest/settings', settings, parseServerSettings, options);
+  }
+
+  return {
+    serverId: server.id,
+    getWorkflowsPage,
+    iterateWorkflows,
+    getWorkflows,
+    getWorkflow,
+    activateWorkflow,
+    deactivateWorkflow,
+    updateWorkflow,
+    getExecutionsPage,
+    iterateExecutions,
+    getExecutions,
+    getExecution,
+    retryExecution,
+    stopExecution,
+    deleteExecution,
+    deleteExecutions,
+    probe,
+    ping,
+    getServerSettings,
+  };
 }
+
+export type N8nClient = ReturnType<typeof createN8nClient>;
@@ -0,0 +1,149 @@
+import { isLoggingEnabled, redact, REDACTED } from './logger';
+
+/**
+ * Network log
+ * Ring buffer of the latest API requests for the hidden network console.
+ * Headers and bodies are redacted and truncated before they're stored.
+ * Like the logger, it only captures while debug logging is on (off in production builds)
+ */
+
+// Requests kept, the oldest are dropped first
+const MAX_ENTRIES = 50;
+const MAX_BODY_LENGTH = 2000;
+
+export interface NetworkEntry {
+  id: number;
+  serverId?: string;
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  startedAt: number;
+  // Missing while the request is in flight
+  status?: number;
+  durationMs?: number;
+  responseBody?: string;
+  // Network failure, no response at all
+  error?: string;
+}
+
+let nextId = 1;
+let entries: NetworkEntry[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Redacted, size-capped text version of a body (parsed JSON or raw text)
+ */
+function formatBody(body: unknown): string | undefined {
+  if (body === undefined || body === null || body === '') return undefined;
+
+  let value = body;
+  if (typeof body === 'string') {
+    try {
+      value = JSON.parse(body);
+    } catch {
+      // Not JSON, keep the text
+    }
+  }
+
+  const redacted = redact(value);
+  const text = typeof redacted === 'string' ? redacted : JSON.stringify(redacted, null, 2);
+  return text.length > MAX_BODY_LENGTH
+    ? `${text.slice(0, MAX_BODY_LENGTH)}\n… (${text.length} chars)`
+    : text;
+}
+
+function updateEntry(id: number, changes: Partial<NetworkEntry>): void {
+  entries = entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry));
+  notify();
+}
+
+// Handed out while capture is off, so callers don't have to check
+const IGNORED_REQUEST = {
+  response: (_status: number, _body?: unknown) => {},
+  failure: (_error: string) => {},
+};
+
+/**
+ * Record an outgoing request. Returns callbacks to complete the entry
+ */
+export function recordRequest(request: {
+  serverId?: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  // Masked whatever their name, e.g. the custom headers of a server
+  secretHeaders?: string[];
+  body?: unknown;
+}) {
+  if (!isLoggingEnabled()) return IGNORED_REQUEST;
+
+  const requestHeaders = redact(request.headers) as Record<string, string>;
+  for (const name of request.secretHeaders ?? []) {
+    if (name in requestHeaders) requestHeaders[name] = REDACTED;
+  }
+
+  const entry: NetworkEntry = {
+    id: nextId++,
+    serverId: request.serverId,
+    method: request.method,
+    url: request.url,
+    requestHeaders,
+    requestBody: formatBody(request.body),
+    startedAt: Date.now(),
+  };
+
+  entries = [...entries, entry].slice(-MAX_ENTRIES);
+  notify();
+
+  return {
+    response: (status: number, body?: unknown) =>
+      updateEntry(entry.id, {
+        status,
+        durationMs: Date.now() - entry.startedAt,
+        responseBody: formatBody(body),
+      }),
+    failure: (error: string) =>
+      updateEntry(entry.id, { durationMs: Date.now() - entry.startedAt, error }),
+  };
+}
+
+/**
+ * Recorded requests, oldest first
+ */
+export function getNetworkEntries(): NetworkEntry[] {
+  return entries;
+}
+
+export function clearNetworkEntries(): void {
+  entries = [];
+  notify();
+}
+
+/**
+ * Get notified whenever entries change. Returns an unsubscribe function
+ */
+export function subscribeToNetworkLog(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * The request as a curl command, with the same masked headers as the entry
+ */
+export function toCurl(entry: NetworkEntry): string {
+  const parts = [`curl -X ${entry.method} ${shellQuote(entry.url)}`];
+  for (const [name, value] of Object.entries(entry.requestHeaders)) {
+    parts.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  }
+  if (entry.requestBody) {
+    parts.push(`--data ${shellQuote(entry.requestBody)}`);
+  }
+  return parts.join(' \\\n  ');
+}
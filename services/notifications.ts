@@ -0,0 +1,243 @@
+import { getSavedLanguage } from '@/context/LanguageContext';
+import { FiredAlert } from '@/types/alerts';
+import { N8nExecution, N8nServer } from '@/types/n8n';
+import * as BackgroundTask from 'expo-background-task';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
+import { AlertRulesApi, describeFiredAlert, evaluateAlertRules } from './alert-rules';
+import { checkServersForFailures, FailureMonitorApi } from './failure-monitor';
+import { translations } from './i18n/strings';
+import { createLogger } from './logger';
+import {
+  addFiredAlerts,
+  getAlertEvaluationState,
+  getAlertHistory,
+  getAlertRules,
+  getFailureHighWaterMarks,
+  getServers,
+  isFailureNotificationsEnabled,
+  saveAlertEvaluationState,
+  saveFailureHighWaterMarks,
+  setFailureNotificationsEnabled,
+} from './storage';
+
+/**
+ * Failure notifications
+ * A background task polls every server for new failed executions and for
+ * alert rule matches, and raises a local notification for each one
+ */
+
+const FAILURE_MONITOR_TASK = 'n8n-failure-monitor';
+const ANDROID_CHANNEL_ID = 'execution-failures';
+// The OS decides the real interval, this is only the lower bound
+const MINIMUM_INTERVAL_MINUTES = 15;
+// Beyond this, the rest of a server's failures are grouped into one notification
+const MAX_NOTIFICATIONS_PER_SERVER = 3;
+
+const log = createLogger('notifications');
+
+/**
+ * Payload attached to notifications, used to deep link on tap
+ */
+export interface FailureNotificationData {
+  url: string;
+  serverId: string;
+}
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+// Must be defined at module scope so the task exists when the OS wakes the app
+TaskManager.defineTask(FAILURE_MONITOR_TASK, async () => {
+  try {
+    if (await isFailureNotificationsEnabled()) {
+      await runFailureCheck();
+    }
+    await runAlertRules();
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (error) {
+    log.error('Error checking for failed executions', error);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+/**
+ * Show a notification right away
+ */
+async function notify(title: string, body: string, data?: FailureNotificationData): Promise<void> {
+  await Notifications.scheduleNotificationAsync({
+    content: { title, body, data: data ? { ...data } : undefined },
+    trigger: Platform.OS === 'android' ? { channelId: ANDROID_CHANNEL_ID } : null,
+  });
+}
+
+/**
+ * Notify about a server's new failures (oldest first): the newest get their own
+ * notification, older ones are summed up. `more` when some weren't even fetched
+ */
+async function notifyFailures(
+  server: N8nServer,
+  executions: N8nExecution[],
+  more: boolean
+): Promise<void> {
+  const t = translations[await getSavedLanguage()];
+  const newestFirst = [...executions].reverse();
+
+  for (const execution of newestFirst.slice(0, MAX_NOTIFICATIONS_PER_SERVER)) {
+    await notify(
+      `${t.executionFailed}: ${execution.workflowData?.name ?? execution.workflowId}`,
+      `${server.name} · #${execution.id}`,
+      { url: `/execution/${execution.id}`, serverId: server.id }
+    );
+  }
+
+  const remaining = Math.max(executions.length - MAX_NOTIFICATIONS_PER_SERVER, 0);
+  if (remaining > 0 || more) {
+    await notify(server.name, `+${remaining}${more ? '+' : ''} ${t.moreFailures}`);
+  }
+}
+
+/**
+ * Poll every saved server once, notify new failures and move the high-water marks forward
+ * Returns the number of new failures found
+ */
+export async function runFailureCheck(api?: FailureMonitorApi): Promise<number> {
+  const servers = await getServers();
+  const marks = await getFailureHighWaterMarks();
+
+  const result = await checkServersForFailures(servers, marks, api);
+  for (const { server, executions, more } of result.failures) {
+    await notifyFailures(server, executions, more);
+  }
+  await saveFailureHighWaterMarks(result.marks);
+
+  return result.failures.reduce((total, { executions }) => total + executions.length, 0);
+}
+
+/**
+ * Evaluate the alert rules once, record and notify the new matches
+ * Returns the alerts that fired
+ */
+export async function runAlertRules(api?: AlertRulesApi): Promise<FiredAlert[]> {
+  const rules = await getAlertRules();
+  if (!rules.some(rule => rule.enabled)) {
+    return [];
+  }
+
+  const servers = await getServers();
+  let state = await getAlertEvaluationState();
+  if (!state) {
+    // Nothing saved yet, the history knows what already fired
+    const history = await getAlertHistory();
+    state = {
+      evaluatedAt: {},
+      firedKeys: Object.fromEntries(history.map(alert => [alert.key, alert.firedAt])),
+    };
+  }
+  const { alerts, state: nextState } = await evaluateAlertRules(rules, servers, state, api);
+  await addFiredAlerts(alerts);
+  await saveAlertEvaluationState(nextState);
+
+  const t = translations[await getSavedLanguage()];
+  for (const alert of alerts) {
+    await notify(
+      alert.ruleName,
+      describeFiredAlert(alert, t),
+      alert.executionId
+        ? { url: `/execution/${alert.executionId}`, serverId: alert.serverId }
+        : undefined
+    );
+  }
+
+  return alerts;
+}
+
+/**
+ * Ask for notification permission (and set up the Android channel)
+ * Returns false when the user denies it
+ */
+export async function requestNotificationPermission(): Promise<boolean> {
+  const { status } = await Notifications.requestPermissionsAsync();
+  if (status !== 'granted') {
+    return false;
+  }
+
+  if (Platform.OS === 'android') {
+    const t = translations[await getSavedLanguage()];
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: t.failureNotifications,
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+  return true;
+}
+
+/**
+ * Register the background task while failure notifications or any rule need it,
+ * unregister it otherwise
+ */
+export async function syncBackgroundMonitor(): Promise<void> {
+  const rules = await getAlertRules();
+  const needed = (await isFailureNotificationsEnabled()) || rules.some(rule => rule.enabled);
+  const registered = await TaskManager.isTaskRegisteredAsync(FAILURE_MONITOR_TASK);
+
+  if (needed && !registered) {
+    await BackgroundTask.registerTaskAsync(FAILURE_MONITOR_TASK, {
+      minimumInterval: MINIMUM_INTERVAL_MINUTES,
+    });
+  } else if (!needed && registered) {
+    await BackgroundTask.unregisterTaskAsync(FAILURE_MONITOR_TASK);
+  }
+}
+
+/**
+ * Ask for permission and start notifying every failure
+ * Returns false when the user denies notifications
+ */
+export async function enableFailureNotifications(): Promise<boolean> {
+  if (!(await requestNotificationPermission())) {
+    return false;
+  }
+
+  // Start from a clean baseline so failures from while it was off aren't reported
+  await saveFailureHighWaterMarks({});
+  await runFailureCheck();
+
+  await setFailureNotificationsEnabled(true);
+  await syncBackgroundMonitor();
+  return true;
+}
+
+/**
+ * Stop notifying every failure (alert rules keep running)
+ */
+export async function disableFailureNotifications(): Promise<void> {
+  await setFailureNotificationsEnabled(false);
+  await syncBackgroundMonitor();
+}
+
+/**
+ * Call onOpen with the payload of a tapped failure notification,
+ * including the one that launched the app. Returns an unsubscribe function
+ */
+export function addFailureNotificationListener(
+  onOpen: (data: FailureNotificationData) => void
+): () => void {
+  const handle = (response: Notifications.NotificationResponse | null) => {
+    const data = response?.notification.request.content.data;
+    if (typeof data?.url === 'string' && typeof data?.serverId === 'string') {
+      onOpen({ url: data.url, serverId: data.serverId });
+    }
+  };
+
+  handle(Notifications.getLastNotificationResponse());
+  const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+  return () => subscription.remove();
+}
@@ -0,0 +1,519 @@
+import { N8nExecution, N8nNode, N8nWorkflow } from '@/types/n8n';
+import { format } from 'date-fns';
+import { DATE_LOCALES, Language, translations } from './i18n/strings';
+import { N8nClient, RequestOptions } from './n8n-api';
+
+/**
+ * Schedule helpers
+ * Read Schedule Trigger / Cron node parameters and work out how long a workflow
+ * can go without running before it's overdue.
+ *
+ * Checks are anchored on the last real run rather than wall clock times, so the
+ * n8n instance timezone (which the app doesn't know) doesn't matter
+ */
+
+const SCHEDULE_TRIGGER_TYPE = 'n8n-nodes-base.scheduleTrigger';
+const CRON_TYPE = 'n8n-nodes-base.cron';
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+// Longest month, used whenever month lengths make the exact gap vary
+const MONTH = 31 * DAY;
+
+// Slack before a late run counts as missed: the larger of these
+const MIN_GRACE_MS = 5 * MINUTE;
+const GRACE_RATIO = 0.1;
+
+// How far cron expressions are sampled to find their longest gap
+const CRON_SAMPLE_OCCURRENCES = 500;
+const CRON_SAMPLE_HORIZON_MS = 400 * DAY;
+// Executions per page while looking for the last scheduled one past manual test runs
+const LAST_RUN_PAGE_SIZE = 50;
+// Recent executions of all workflows fetched at once for the workflow list (the API maximum)
+const RECENT_RUNS_LOOKUP_LIMIT = 250;
+
+export type ScheduleUnit = 'seconds' | 'minutes' | 'hours' | 'days' | 'weeks' | 'months';
+
+/**
+ * A single schedule rule, normalized from either node type
+ */
+export type ScheduleRule =
+  | {
+      kind: 'interval';
+      unit: ScheduleUnit;
+      every: number;
+      // Time of day for days/weeks/months, minute past the hour for hours
+      hour?: number;
+      minute?: number;
+      // 0 = Sunday
+      weekdays?: number[];
+      dayOfMonth?: number;
+    }
+  | { kind: 'cron'; expression: string };
+
+export interface NodeSchedule {
+  nodeName: string;
+  rules: ScheduleRule[];
+}
+
+export interface HeartbeatStatus {
+  schedules: NodeSchedule[];
+  // Longest the workflow should ever go between runs
+  maxGapMs: number;
+  lastRunAt?: Date;
+  // When the next run should have happened by at the latest
+  expectedBy: Date;
+  overdue: boolean;
+}
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Schedule Trigger: parameters.rule.interval[] with a `field` per entry
+ * An empty entry means the node default, every day at midnight
+ */
+function parseScheduleTrigger(parameters: Record<string, any>): ScheduleRule[] {
+  const intervals: Record<string, any>[] = parameters.rule?.interval ?? [{}];
+
+  return intervals.map(interval => {
+    const field = interval.field ?? 'days';
+    const hour = toNumber(interval.triggerAtHour, 0);
+    const minute = toNumber(interval.triggerAtMinute, 0);
+
+    switch (field) {
+      case 'cronExpression':
+        return { kind: 'cron', expression: String(interval.expression ?? '') };
+      case 'seconds':
+        return { kind: 'interval', unit: 'seconds', every: toNumber(interval.secondsInterval, 30) };
+      case 'minutes':
+        return { kind: 'interval', unit: 'minutes', every: toNumber(interval.minutesInterval, 5) };
+      case 'hours':
+        return { kind: 'interval', unit: 'hours', every: toNumber(interval.hoursInterval, 1), minute };
+      case 'weeks': {
+        const days: unknown[] = Array.isArray(interval.triggerAtDay) ? interval.triggerAtDay : [0];
+        return {
+          kind: 'interval',
+          unit: 'weeks',
+          every: toNumber(interval.weeksInterval, 1),
+          weekdays: days.map(day => toNumber(day, 0) % 7),
+          hour,
+          minute,
+        };
+      }
+      case 'months':
+        return {
+          kind: 'interval',
+          unit: 'months',
+          every: toNumber(interval.monthsInterval, 1),
+          dayOfMonth: toNumber(interval.triggerAtDayOfMonth, 1),
+          hour,
+          minute,
+        };
+      default:
+        return { kind: 'interval', unit: 'days', every: toNumber(interval.daysInterval, 1), hour, minute };
+    }
+  });
+}
+
+/**
+ * Legacy Cron node: parameters.triggerTimes.item[] with a `mode` per entry
+ */
+function parseCronNode(parameters: Record<string, any>): ScheduleRule[] {
+  const items: Record<string, any>[] = parameters.triggerTimes?.item ?? [];
+
+  return items.map(item => {
+    const hour = toNumber(item.hour, 14);
+    const minute = toNumber(item.minute, 0);
+
+    switch (item.mode) {
+      case 'everyMinute':
+        return { kind: 'interval', unit: 'minutes', every: 1 };
+      case 'everyHour':
+        return { kind: 'interval', unit: 'hours', every: 1, minute };
+      case 'everyWeek':
+        return { kind: 'interval', unit: 'weeks', every: 1, weekdays: [toNumber(item.weekday, 1) % 7], hour, minute };
+      case 'everyMonth':
+        return { kind: 'interval', unit: 'months', every: 1, dayOfMonth: toNumber(item.dayOfMonth, 1), hour, minute };
+      case 'everyX':
+        return { kind: 'interval', unit: item.unit === 'minutes' ? 'minutes' : 'hours', every: toNumber(item.value, 2) };
+      case 'custom':
+        return { kind: 'cron', expression: String(item.cronExpression ?? '') };
+      default:
+        return { kind: 'interval', unit: 'days', every: 1, hour, minute };
+    }
+  });
+}
+
+/**
+ * Schedule rules of a trigger node, null for nodes that aren't schedule triggers
+ */
+export function getNodeSchedule(node: N8nNode): ScheduleRule[] | null {
+  if (node.type === SCHEDULE_TRIGGER_TYPE) return parseScheduleTrigger(node.parameters ?? {});
+  if (node.type === CRON_TYPE) return parseCronNode(node.parameters ?? {});
+  return null;
+}
+
+/**
+ * Enabled schedule triggers of a workflow
+ */
+export function getWorkflowSchedules(workflow: Pick<N8nWorkflow, 'nodes'>): NodeSchedule[] {
+  return (workflow.nodes ?? [])
+    .filter(node => !node.disabled)
+    .map(node => ({ nodeName: node.name, rules: getNodeSchedule(node) }))
+    .filter((schedule): schedule is NodeSchedule => !!schedule.rules && schedule.rules.length > 0);
+}
+
+/**
+ * Longest time between two runs of a rule, null if it never fires
+ */
+export function getRuleMaxGap(rule: ScheduleRule): number | null {
+  if (rule.kind === 'cron') {
+    return getCronMaxGap(rule.expression);
+  }
+
+  const every = Math.max(rule.every, 1);
+  switch (rule.unit) {
+    case 'seconds':
+      return every * 1000;
+    case 'minutes':
+      return every * MINUTE;
+    case 'hours':
+      return every * HOUR;
+    case 'days':
+      return every * DAY;
+    case 'weeks': {
+      const days = [...new Set(rule.weekdays ?? [0])].sort((a, b) => a - b);
+      // Gaps inside a week, then the wrap around to the first day of the next active week
+      const gaps = days.slice(1).map((day, index) => day - days[index]);
+      const wrap = days[0] + 7 - days[days.length - 1] + 7 * (every - 1);
+      return Math.max(wrap, ...gaps) * DAY;
+    }
+    case 'months':
+      // Days past the 28th are skipped in shorter months
+      return (every + ((rule.dayOfMonth ?? 1) > 28 ? 1 : 0)) * MONTH;
+  }
+}
+
+/**
+ * How long a workflow can go between runs: any one trigger guarantees its own gap,
+ * so the tightest of them bounds the whole workflow
+ */
+export function getScheduleMaxGap(schedules: NodeSchedule[]): number | null {
+  const gaps = schedules
+    .flatMap(schedule => schedule.rules.map(getRuleMaxGap))
+    .filter((gap): gap is number => gap !== null);
+
+  return gaps.length > 0 ? Math.min(...gaps) : null;
+}
+
+const getGraceMs = (maxGapMs: number) => Math.max(MIN_GRACE_MS, maxGapMs * GRACE_RATIO);
+
+/**
+ * Compare a scheduled workflow against its last run
+ * Returns null for workflows that aren't active or have no schedule trigger
+ */
+export function getHeartbeatStatus(
+  workflow: Pick<N8nWorkflow, 'active' | 'nodes' | 'updatedAt'>,
+  lastRun: Pick<N8nExecution, 'startedAt'> | null | undefined,
+  now: Date = new Date()
+): HeartbeatStatus | null {
+  if (!workflow.active) return null;
+
+  const schedules = getWorkflowSchedules(workflow);
+  const maxGapMs = getScheduleMaxGap(schedules);
+  if (maxGapMs === null) return null;
+
+  const lastRunAt = lastRun ? new Date(lastRun.startedAt) : undefined;
+  // Never ran: count from the last change, which includes activating it
+  const anchor = lastRunAt ?? new Date(workflow.updatedAt);
+  const grace = getGraceMs(maxGapMs);
+  const expectedBy = new Date(anchor.getTime() + maxGapMs);
+
+  return {
+    schedules,
+    maxGapMs,
+    lastRunAt,
+    expectedBy,
+    overdue: now.getTime() > expectedBy.getTime() + grace,
+  };
+}
+
+// Manual test runs say nothing about the schedule
+const isScheduledRun = (execution: N8nExecution) => execution.mode !== 'manual';
+
+/**
+ * Latest execution started by the schedule, manual test runs don't count
+ */
+export function findLastScheduledRun(executions: N8nExecution[]): N8nExecution | undefined {
+  return executions
+    .filter(isScheduledRun)
+    .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())[0];
+}
+
+/**
+ * Fetch the latest non-manual execution of a workflow (null if it never ran)
+ * The API can't filter by mode, so pages are read until one turns up
+ */
+export async function getLastScheduledRun(
+  client: N8nClient,
+  workflowId: string,
+  options: RequestOptions = {}
+): Promise<N8nExecution | null> {
+  // Newest first, the first scheduled one is the last
+  const executions = client.iterateExecutions({ workflowId }, LAST_RUN_PAGE_SIZE, options);
+  for await (const execution of executions) {
+    if (isScheduledRun(execution)) return execution;
+  }
+  return null;
+}
+
+/**
+ * One page of the latest executions of every workflow
+ * `complete` is false when older executions were left out
+ */
+export interface RecentRuns {
+  executions: N8nExecution[];
+  complete: boolean;
+}
+
+/**
+ * Fetch the latest executions of all workflows in a single request
+ */
+export async function getRecentRuns(
+  client: N8nClient,
+  options: RequestOptions = {}
+): Promise<RecentRuns> {
+  const page = await client.getExecutionsPage({}, { limit: RECENT_RUNS_LOOKUP_LIMIT }, options);
+  return { executions: page.data, complete: !page.nextCursor };
+}
+
+/**
+ * IDs of the overdue workflows, judged from the recent runs of all workflows
+ * A workflow without a run in the page may have run before it, so it only counts as
+ * overdue when a run right before the oldest one in the page would be overdue too
+ */
+export function findOverdueWorkflows(
+  workflows: Pick<N8nWorkflow, 'id' | 'active' | 'nodes' | 'updatedAt'>[],
+  recent: RecentRuns,
+  now: Date = new Date()
+): Set<string> {
+  const coveredSince = recent.complete
+    ? -Infinity
+    : Math.min(...recent.executions.map(execution => new Date(execution.startedAt).getTime()));
+
+  return new Set(
+    workflows
+      .filter(workflow => {
+        const lastRun = findLastScheduledRun(
+          recent.executions.filter(execution => execution.workflowId === workflow.id)
+        );
+        const status = getHeartbeatStatus(workflow, lastRun, now);
+        if (!status?.overdue) return false;
+        return (
+          !!lastRun || now.getTime() > coveredSince + status.maxGapMs + getGraceMs(status.maxGapMs)
+        );
+      })
+      .map(workflow => workflow.id)
+  );
+}
+
+type Translations = typeof translations.es;
+
+const UNIT_LABELS: Record<ScheduleUnit, keyof Translations> = {
+  seconds: 'unitSeconds',
+  minutes: 'unitMinutes',
+  hours: 'unitHours',
+  days: 'unitDays',
+  weeks: 'unitWeeks',
+  months: 'unitMonths',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * One line summary of a schedule rule (e.g. "Cada 2 semanas: lun, jue a las 09:00")
+ */
+export function describeScheduleRule(
+  rule: ScheduleRule,
+  t: Translations,
+  language: Language
+): string {
+  if (rule.kind === 'cron') {
+    return `Cron: ${rule.expression}`;
+  }
+
+  let text = `${t.every} ${rule.every} ${t[UNIT_LABELS[rule.unit]]}`;
+  if (rule.unit === 'weeks' && rule.weekdays) {
+    // 2023-01-01 was a Sunday
+    const locale = DATE_LOCALES[language];
+    text += `: ${rule.weekdays.map(day => format(new Date(2023, 0, 1 + day), 'EEE', { locale })).join(', ')}`;
+  }
+  if (rule.unit === 'months') {
+    text += `, ${t.onDayOfMonth} ${rule.dayOfMonth ?? 1}`;
+  }
+  if (rule.unit === 'hours') {
+    text += ` (:${pad(rule.minute ?? 0)})`;
+  } else if (rule.hour !== undefined) {
+    text += ` ${t.at} ${pad(rule.hour)}:${pad(rule.minute ?? 0)}`;
+  }
+  return text;
+}
+
+/**
+ * Compact gap length in its largest whole unit (e.g. "15 min", "3 h", "7 d")
+ */
+export function formatScheduleGap(ms: number): string {
+  if (ms < MINUTE) return `${Math.round(ms / 1000)} s`;
+  if (ms < HOUR || ms % HOUR !== 0) return `${Math.round(ms / MINUTE)} min`;
+  if (ms < DAY || ms % DAY !== 0) return `${ms / HOUR} h`;
+  return `${ms / DAY} d`;
+}
+
+// --- Cron expressions ---
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+function parseCronValue(value: string, names?: string[], offset = 0): number {
+  const index = names?.indexOf(value.toUpperCase()) ?? -1;
+  return index !== -1 ? index + offset : Number(value);
+}
+
+/**
+ * Expand one cron field (e.g. "*\/15", "1-5", "MON,WED") into its values
+ */
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0
+): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start = min;
+    let end = max;
+
+    if (range !== '*' && range !== '?') {
+      const [from, to] = range.split('-');
+      start = parseCronValue(from, names, nameOffset);
+      end = to === undefined ? (stepText === undefined ? start : max) : parseCronValue(to, names, nameOffset);
+    }
+
+    if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max) {
+      return null;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5 field cron expression, or 6 fields with leading seconds (ignored)
+ */
+export function parseCronExpression(expression: string): CronFields | null {
+  let fields = expression.trim().split(/\s+/);
+  if (fields.length === 6) fields = fields.slice(1);
+  if (fields.length !== 5) return null;
+
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+  const minutes = parseCronField(minuteField, 0, 59);
+  const hours = parseCronField(hourField, 0, 23);
+  const daysOfMonth = parseCronField(domField, 1, 31);
+  const months = parseCronField(monthField, 1, 12, MONTH_NAMES, 1);
+  // 7 is also Sunday
+  const daysOfWeek = parseCronField(dowField, 0, 7, DAY_NAMES);
+
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) return null;
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: domField !== '*' && domField !== '?',
+    dowRestricted: dowField !== '*' && dowField !== '?',
+  };
+}
+
+function cronDayMatches(fields: CronFields, date: Date): boolean {
+  const dom = fields.daysOfMonth.has(date.getDate());
+  const dow = fields.daysOfWeek.has(date.getDay());
+  if (fields.domRestricted && fields.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * Next time a cron expression fires after `after` (local time, minute precision)
+ * Skips whole months/days/hours that can't match instead of walking every minute
+ */
+export function getNextCronRun(fields: CronFields, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getTime() + CRON_SAMPLE_HORIZON_MS;
+
+  while (date.getTime() <= limit) {
+    if (!fields.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!cronDayMatches(fields, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!fields.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!fields.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Longest gap between consecutive runs of a cron expression, sampled from now
+ */
+export function getCronMaxGap(expression: string, from: Date = new Date()): number | null {
+  const fields = parseCronExpression(expression);
+  if (!fields) return null;
+
+  let previous = getNextCronRun(fields, from);
+  if (!previous) return null;
+
+  let maxGap = 0;
+  for (let i = 0; i < CRON_SAMPLE_OCCURRENCES; i++) {
+    const next = getNextCronRun(fields, previous);
+    if (!next) break;
+    maxGap = Math.max(maxGap, next.getTime() - previous.getTime());
+    previous = next;
+    if (previous.getTime() - from.getTime() > CRON_SAMPLE_HORIZON_MS) break;
+  }
+
+  // Fires once within the horizon (e.g. a single date): nothing to compare against
+  return maxGap > 0 ? maxGap : null;
+}
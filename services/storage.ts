@@ -1,16 +1,44 @@
-import { N8nConfig, N8nServer } from '@/types/n8n';
+import { AlertEvaluationState, AlertRule, FiredAlert } from '@/types/alerts';
+import { N8nCapabilities, N8nConfig, N8nServer } from '@/types/n8n';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SecureStore from 'expo-secure-store';
 import 'react-native-get-random-values';
 import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from './logger';
+import { isSameConnection } from './n8n-api';
 
 const STORAGE_KEYS = {
   SERVER_URL: 'n8n_server_url', // Legacy
   API_KEY: 'n8n_api_key',       // Legacy
-  SERVERS: 'n8n_servers',       // New: Array of servers
+  SERVERS: 'n8n_servers',       // Previous: Array of servers, secrets included, in one secure value
+  SERVER_LIST: 'n8n_server_list', // Server metadata, in regular storage
+  SERVER_CREDENTIALS: 'n8n_server_credentials_', // + server ID, secrets of one server
   ACTIVE_SERVER_ID: 'n8n_active_server_id',
   ONBOARDING_COMPLETED: 'n8n_onboarding_completed',
+  FAILURE_NOTIFICATIONS: 'n8n_failure_notifications_enabled',
+  FAILURE_HIGH_WATER_MARKS: 'n8n_failure_high_water_marks', // Regular storage
+  ALERT_RULES: 'n8n_alert_rules', // Regular storage
+  ALERT_HISTORY: 'n8n_alert_history', // Regular storage
+  ALERT_STATE: 'n8n_alert_state', // Regular storage
+  DEBUG_LOGGING: 'n8n_debug_logging_enabled',
 } as const;
 
+// Fired alerts kept in the history, oldest are dropped first
+const MAX_ALERT_HISTORY = 100;
+
+const log = createLogger('storage');
+
+/**
+ * Server fields that only live in SecureStore. Each server gets its own key, secure values
+ * are size-limited (about 2 KB on Android) and a single list of servers outgrows that
+ */
+type ServerCredentials = Pick<N8nServer, 'apiKey' | 'customHeaders' | 'basicAuth'>;
+
+// What's kept in regular storage
+type StoredServer = Omit<N8nServer, keyof ServerCredentials>;
+
+const credentialsKey = (serverId: string) => `${STORAGE_KEYS.SERVER_CREDENTIALS}${serverId}`;
+
 /**
  * Check if onboarding has been completed
  */
@@ -33,14 +61,51 @@ export async function resetOnboarding(): Promise<void> {
   await SecureStore.deleteItemAsync(STORAGE_KEYS.ONBOARDING_COMPLETED);
 }
 
+/**
+ * Get the secrets of a server, an empty API key if they're gone (e.g. restored from a backup
+ * without the keychain) so the server asks for it again instead of disappearing
+ */
+async function getServerCredentials(serverId: string): Promise<ServerCredentials> {
+  const credentialsJson = await SecureStore.getItemAsync(credentialsKey(serverId));
+  if (!credentialsJson) {
+    log.warn('Missing credentials for server', { serverId });
+    return { apiKey: '' };
+  }
+  return JSON.parse(credentialsJson);
+}
+
+/**
+ * Save the secrets of one server
+ */
+async function saveServerCredentials(server: N8nServer): Promise<void> {
+  const { apiKey, customHeaders, basicAuth } = server;
+  await SecureStore.setItemAsync(
+    credentialsKey(server.id),
+    JSON.stringify({ apiKey, customHeaders, basicAuth })
+  );
+}
+
 /**
  * Get all saved servers
  */
 export async function getServers(): Promise<N8nServer[]> {
   try {
+    const listJson = await AsyncStorage.getItem(STORAGE_KEYS.SERVER_LIST);
+    if (listJson) {
+      const list: StoredServer[] = JSON.parse(listJson);
+      return Promise.all(
+        list.map(async server => ({ ...server, ...(await getServerCredentials(server.id)) }))
+      );
+    }
+
+    // Migration Check: servers saved as a single secure value
     const serversJson = await SecureStore.getItemAsync(STORAGE_KEYS.SERVERS);
     if (serversJson) {
-      return JSON.parse(serversJson);
+      const servers: N8nServer[] = JSON.parse(serversJson);
+      await storeServers(servers);
+      // Only once everything is stored in the new format, a failure above retries next time
+      await SecureStore.deleteItemAsync(STORAGE_KEYS.SERVERS);
+      return servers;
     }
 
     // Migration Check: If no servers list but legacy config exists
@@ -54,23 +119,36 @@ export async function getServers(): Promise<N8nServer[]> {
         serverUrl: legacyUrl,
         apiKey: legacyKey,
       };
-      await saveServerList([newServer]);
+      await storeServers([newServer]);
       await setActiveServerId(newServer.id);
       return [newServer];
     }
 
     return [];
   } catch (error) {
-    console.error('Error getting servers:', error);
+    log.error('Error getting servers', error);
     return [];
   }
 }
 
 /**
- * Save the full list of servers
+ * Save the full list of servers, without their secrets
  */
 async function saveServerList(servers: N8nServer[]): Promise<void> {
-  await SecureStore.setItemAsync(STORAGE_KEYS.SERVERS, JSON.stringify(servers));
+  const list: StoredServer[] = servers.map(
+    ({ apiKey, customHeaders, basicAuth, ...server }) => server
+  );
+  await AsyncStorage.setItem(STORAGE_KEYS.SERVER_LIST, JSON.stringify(list));
+}
+
+/**
+ * Save servers from scratch, secrets first so the list never points at missing ones
+ */
+async function storeServers(servers: N8nServer[]): Promise<void> {
+  for (const server of servers) {
+    await saveServerCredentials(server);
+  }
+  await saveServerList(servers);
 }
 
 /**
@@ -78,15 +156,23 @@ async function saveServerList(servers: N8nServer[]): Promise<void> {
  */
 export async function saveServer(config: N8nConfig): Promise<void> {
   const servers = await getServers();
-  
+  let saved: N8nServer;
+
   if (config.id) {
     // Update existing
     const index = servers.findIndex(s => s.id === config.id);
     if (index !== -1) {
-      servers[index] = { ...servers[index], ...config } as N8nServer;
+      const previous = servers[index];
+      servers[index] = { ...previous, ...config } as N8nServer;
+      // Another URL, path, key, header or proxy login may well be another server, probe it again
+      if (!isSameConnection(previous, servers[index])) {
+        delete servers[index].capabilities;
+      }
+      saved = servers[index];
     } else {
         // Fallback if ID provided but not found (shouldn't happen often)
-        servers.push({ ...config, id: config.id, name: config.name || 'n8n Server' } as N8nServer);
+        saved = { ...config, id: config.id, name: config.name || 'n8n Server' } as N8nServer;
+        servers.push(saved);
     }
   } else {
     // Add new
@@ -95,8 +181,12 @@ export async function saveServer(config: N8nConfig): Promise<void> {
       name: config.name || 'New Server',
       serverUrl: config.serverUrl,
       apiKey: config.apiKey,
+      apiBasePath: config.apiBasePath,
+      customHeaders: config.customHeaders,
+      basicAuth: config.basicAuth,
     };
     servers.push(newServer);
+    saved = newServer;
     
     // If it's the first server, make it active
     if (servers.length === 1) {
@@ -104,9 +194,23 @@ export async function saveServer(config: N8nConfig): Promise<void> {
     }
   }
 
+  await saveServerCredentials(saved);
   await saveServerList(servers);
 }
 
+/**
+ * Store the capability profile probed for a server
+ */
+export async function saveServerCapabilities(
+  id: string,
+  capabilities: N8nCapabilities
+): Promise<void> {
+  const servers = await getServers();
+  await saveServerList(
+    servers.map(server => (server.id === id ? { ...server, capabilities } : server))
+  );
+}
+
 /**
  * Remove a server by ID
  */
@@ -114,6 +218,13 @@ export async function removeServer(id: string): Promise<void> {
     const servers = await getServers();
     const newServers = servers.filter(s => s.id !== id);
     await saveServerList(newServers);
+    await SecureStore.deleteItemAsync(credentialsKey(id));
+
+    const { [id]: _removed, ...marks } = await getFailureHighWaterMarks();
+    await saveFailureHighWaterMarks(marks);
+
+    const rules = await getAlertRules();
+    await saveAlertRuleList(rules.filter(rule => rule.serverId !== id));
 
     // If we removed the active server, reset active ID
     const activeId = await getActiveServerId();
@@ -141,9 +252,9 @@ export async function getActiveServerId(): Promise<string | null> {
 }
 
 /**
- * Get the currently active n8n configuration (backward compatible)
+ * Get the currently active server
  */
-export async function getN8nConfig(): Promise<N8nConfig | null> {
+export async function getActiveServer(): Promise<N8nServer | null> {
   try {
     const servers = await getServers();
     if (servers.length === 0) return null;
@@ -157,7 +268,7 @@ export async function getN8nConfig(): Promise<N8nConfig | null> {
     // Fallback: return first server if active ID is invalid or missing
     return servers[0];
   } catch (error) {
-    console.error('Error getting n8n config:', error);
+    log.error('Error getting active server', error);
     return null;
   }
 }
@@ -170,6 +281,152 @@ export async function hasN8nConfig(): Promise<boolean> {
   return servers.length > 0;
 }
 
+/**
+ * Check if failure notifications are enabled
+ */
+export async function isFailureNotificationsEnabled(): Promise<boolean> {
+  const enabled = await SecureStore.getItemAsync(STORAGE_KEYS.FAILURE_NOTIFICATIONS);
+  return enabled === 'true';
+}
+
+/**
+ * Enable or disable failure notifications
+ */
+export async function setFailureNotificationsEnabled(enabled: boolean): Promise<void> {
+  await SecureStore.setItemAsync(STORAGE_KEYS.FAILURE_NOTIFICATIONS, String(enabled));
+}
+
+/**
+ * Check if debug logging is enabled (on by default in development builds only)
+ */
+export async function isDebugLoggingEnabled(): Promise<boolean> {
+  const enabled = await SecureStore.getItemAsync(STORAGE_KEYS.DEBUG_LOGGING);
+  return enabled === null ? __DEV__ : enabled === 'true';
+}
+
+/**
+ * Enable or disable debug logging
+ */
+export async function setDebugLoggingEnabled(enabled: boolean): Promise<void> {
+  await SecureStore.setItemAsync(STORAGE_KEYS.DEBUG_LOGGING, String(enabled));
+}
+
+/**
+ * Get the newest failed execution ID already seen, per server ID
+ */
+export async function getFailureHighWaterMarks(): Promise<Record<string, string>> {
+  try {
+    const marksJson = await AsyncStorage.getItem(STORAGE_KEYS.FAILURE_HIGH_WATER_MARKS);
+    return marksJson ? JSON.parse(marksJson) : {};
+  } catch (error) {
+    log.error('Error getting failure high-water marks', error);
+    return {};
+  }
+}
+
+/**
+ * Save the per-server high-water marks
+ */
+export async function saveFailureHighWaterMarks(marks: Record<string, string>): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEYS.FAILURE_HIGH_WATER_MARKS, JSON.stringify(marks));
+}
+
+/**
+ * Get all alert rules
+ */
+export async function getAlertRules(): Promise<AlertRule[]> {
+  try {
+    const rulesJson = await AsyncStorage.getItem(STORAGE_KEYS.ALERT_RULES);
+    return rulesJson ? JSON.parse(rulesJson) : [];
+  } catch (error) {
+    log.error('Error getting alert rules', error);
+    return [];
+  }
+}
+
+/**
+ * Save the full list of alert rules
+ */
+async function saveAlertRuleList(rules: AlertRule[]): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEYS.ALERT_RULES, JSON.stringify(rules));
+}
+
+/**
+ * Add or update an alert rule
+ */
+export async function saveAlertRule(
+  rule: Omit<AlertRule, 'id' | 'createdAt'> & Partial<Pick<AlertRule, 'id' | 'createdAt'>>
+): Promise<AlertRule> {
+  const rules = await getAlertRules();
+  const index = rule.id ? rules.findIndex(r => r.id === rule.id) : -1;
+
+  if (index !== -1) {
+    rules[index] = { ...rules[index], ...rule } as AlertRule;
+    await saveAlertRuleList(rules);
+    return rules[index];
+  }
+
+  const newRule: AlertRule = {
+    ...rule,
+    id: uuidv4(),
+    createdAt: new Date().toISOString(),
+  };
+  rules.push(newRule);
+  await saveAlertRuleList(rules);
+  return newRule;
+}
+
+/**
+ * Remove an alert rule by ID
+ */
+export async function removeAlertRule(id: string): Promise<void> {
+  const rules = await getAlertRules();
+  await saveAlertRuleList(rules.filter(rule => rule.id !== id));
+}
+
+/**
+ * Get fired alerts, newest first
+ */
+export async function getAlertHistory(): Promise<FiredAlert[]> {
+  try {
+    const historyJson = await AsyncStorage.getItem(STORAGE_KEYS.ALERT_HISTORY);
+    return historyJson ? JSON.parse(historyJson) : [];
+  } catch (error) {
+    log.error('Error getting alert history', error);
+    return [];
+  }
+}
+
+/**
+ * Record newly fired alerts at the top of the history
+ */
+export async function addFiredAlerts(alerts: FiredAlert[]): Promise<void> {
+  if (alerts.length === 0) return;
+  const history = await getAlertHistory();
+  const next = [...alerts, ...history].slice(0, MAX_ALERT_HISTORY);
+  await AsyncStorage.setItem(STORAGE_KEYS.ALERT_HISTORY, JSON.stringify(next));
+}
+
+/**
+ * Get what the rules engine kept from its last evaluation, null before the first one
+ */
+export async function getAlertEvaluationState(): Promise<AlertEvaluationState | null> {
+  try {
+    const stateJson = await AsyncStorage.getItem(STORAGE_KEYS.ALERT_STATE);
+    return stateJson ? JSON.parse(stateJson) : null;
+  } catch (error) {
+    log.error('Error getting alert evaluation state', error);
+    return null;
+  }
+}
+
+/**
+ * Save the rules engine state for the next evaluation
+ */
+export async function saveAlertEvaluationState(state: AlertEvaluationState): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEYS.ALERT_STATE, JSON.stringify(state));
+}
+
 // Deprecated simplified save, mapped to saveServer for one-shot config.
 // Maintained for compatibility if other files call it blindly.
 export async function saveN8nConfig(config: N8nConfig): Promise<void> {
@@ -0,0 +1,155 @@
+import { N8nConnections, N8nNode, N8nNodeExecutionStatus } from '@/types/n8n';
+
+/**
+ * Workflow graph layout
+ * Turns n8n node positions and connections into boxes and orthogonal edge
+ * paths that can be drawn with plain views
+ */
+
+export const NODE_WIDTH = 100;
+export const NODE_HEIGHT = 60;
+const PADDING = 40;
+// Horizontal run out of an output / into an input before an edge turns
+const EDGE_GAP = 20;
+
+const STICKY_NOTE_TYPE = 'n8n-nodes-base.stickyNote';
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+export interface GraphNode {
+  node: N8nNode;
+  x: number;
+  y: number;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  type: string;
+  outputIndex: number;
+  points: GraphPoint[];
+  // Where an annotation for this edge (e.g. item count) can be placed
+  labelPoint: GraphPoint;
+}
+
+/**
+ * Execution results painted over the graph
+ */
+export interface GraphOverlay {
+  nodes: Record<string, { status: N8nNodeExecutionStatus; itemCount: number }>;
+  // Items emitted per main output, keyed by edgeOutputKey()
+  outputs: Record<string, number>;
+  errorNode?: string;
+}
+
+export function edgeOutputKey(nodeName: string, outputIndex: number): string {
+  return `${nodeName}:${outputIndex}`;
+}
+
+export interface GraphLayout {
+  width: number;
+  height: number;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Compute a layout in canvas coordinates, shifted so the top-left node sits at PADDING
+ */
+export function computeGraphLayout(
+  nodes: N8nNode[],
+  connections: N8nConnections = {}
+): GraphLayout {
+  // Nodes without a position have nowhere to go, their edges are dropped with them
+  const visibleNodes = nodes.flatMap(node =>
+    node.type !== STICKY_NOTE_TYPE && node.position ? [{ node, position: node.position }] : []
+  );
+  if (visibleNodes.length === 0) {
+    return { width: 0, height: 0, nodes: [], edges: [] };
+  }
+
+  const minX = Math.min(...visibleNodes.map(({ position }) => position[0]));
+  const minY = Math.min(...visibleNodes.map(({ position }) => position[1]));
+
+  const graphNodes = visibleNodes.map(({ node, position }) => ({
+    node,
+    x: position[0] - minX + PADDING,
+    y: position[1] - minY + PADDING,
+  }));
+  const byName = new Map(graphNodes.map(graphNode => [graphNode.node.name, graphNode]));
+
+  const edges: GraphEdge[] = [];
+  for (const [sourceName, types] of Object.entries(connections)) {
+    const source = byName.get(sourceName);
+    if (!source) continue;
+
+    for (const [type, outputs] of Object.entries(types)) {
+      outputs.forEach((targets, outputIndex) => {
+        for (const target of targets ?? []) {
+          const targetNode = byName.get(target.node);
+          if (!targetNode) continue;
+
+          const points = routeEdge(source, outputIndex, outputs.length, targetNode);
+          edges.push({
+            from: sourceName,
+            to: target.node,
+            type,
+            outputIndex,
+            points,
+            labelPoint: getLabelPoint(points),
+          });
+        }
+      });
+    }
+  }
+
+  const width = Math.max(...graphNodes.map(n => n.x)) + NODE_WIDTH + PADDING;
+  const height = Math.max(...graphNodes.map(n => n.y)) + NODE_HEIGHT + PADDING;
+
+  return { width, height, nodes: graphNodes, edges };
+}
+
+/**
+ * Orthogonal route from an output on the right of the source to the input on the left of the target
+ * Edges going backwards (loops) are routed below both nodes
+ */
+function routeEdge(
+  source: GraphNode,
+  outputIndex: number,
+  outputCount: number,
+  target: GraphNode
+): GraphPoint[] {
+  const start = {
+    x: source.x + NODE_WIDTH,
+    y: source.y + (NODE_HEIGHT * (outputIndex + 1)) / (outputCount + 1),
+  };
+  const end = { x: target.x, y: target.y + NODE_HEIGHT / 2 };
+
+  if (end.x - start.x >= EDGE_GAP * 2) {
+    const midX = (start.x + end.x) / 2;
+    return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+  }
+
+  const loopY = Math.max(source.y, target.y) + NODE_HEIGHT + EDGE_GAP;
+  return [
+    start,
+    { x: start.x + EDGE_GAP, y: start.y },
+    { x: start.x + EDGE_GAP, y: loopY },
+    { x: end.x - EDGE_GAP, y: loopY },
+    { x: end.x - EDGE_GAP, y: end.y },
+    end,
+  ];
+}
+
+/**
+ * Midpoint of the middle segment of a route
+ */
+function getLabelPoint(points: GraphPoint[]): GraphPoint {
+  const index = Math.floor((points.length - 1) / 2);
+  const a = points[index];
+  const b = points[index + 1];
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
@@ -0,0 +1,88 @@
+/**
+ * Alert rule types
+ * Rules are evaluated against the executions of the server they belong to
+ */
+
+/**
+ * "Workflow has at least `threshold` errors in the last `windowMinutes`"
+ */
+export interface ErrorCountCondition {
+  type: 'errorCount';
+  workflowId: string;
+  workflowName: string;
+  threshold: number;
+  windowMinutes: number;
+}
+
+/**
+ * "Any workflow tagged `tag` fails"
+ */
+export interface TaggedFailureCondition {
+  type: 'taggedFailure';
+  tag: string;
+}
+
+/**
+ * "No successful execution of the workflow in the last `hours`"
+ */
+export interface NoSuccessCondition {
+  type: 'noSuccess';
+  workflowId: string;
+  workflowName: string;
+  hours: number;
+}
+
+/**
+ * "An execution has been running for more than `minutes`", optionally for one workflow
+ */
+export interface LongRunningCondition {
+  type: 'longRunning';
+  minutes: number;
+  workflowId?: string;
+  workflowName?: string;
+}
+
+export type AlertCondition =
+  | ErrorCountCondition
+  | TaggedFailureCondition
+  | NoSuccessCondition
+  | LongRunningCondition;
+
+export type AlertConditionType = AlertCondition['type'];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  serverId: string;
+  enabled: boolean;
+  condition: AlertCondition;
+  createdAt: string;
+}
+
+/**
+ * What the rules engine remembers between evaluations
+ */
+export interface AlertEvaluationState {
+  // ISO date of the last successful evaluation, per rule ID
+  evaluatedAt: Record<string, string>;
+  // Keys of the alerts already fired, with the ISO date they fired (outlives the history)
+  firedKeys: Record<string, string>;
+}
+
+/**
+ * A rule match recorded in the alert history
+ */
+export interface FiredAlert {
+  // Identifies what fired, so the same situation isn't reported twice
+  key: string;
+  ruleId: string;
+  ruleName: string;
+  serverId: string;
+  conditionType: AlertConditionType;
+  firedAt: string;
+  workflowId?: string;
+  workflowName?: string;
+  executionId?: string;
+  // Errors counted (errorCount) or minutes running (longRunning)
+  value?: number;
+}
@@ -8,11 +8,57 @@ export interface N8nConfig {
   name?: string;
   serverUrl: string;
   apiKey: string;
+  // Public API path relative to the server URL, for proxies that move it from /api/v1
+  apiBasePath?: string;
+  // Sent with every request, e.g. the service token of an access proxy
+  customHeaders?: N8nCustomHeader[];
+  // Credentials of a proxy in front of n8n (e.g. nginx auth_basic), the API key still applies
+  basicAuth?: N8nBasicAuth;
+}
+
+export interface N8nBasicAuth {
+  username: string;
+  password: string;
+}
+
+export interface N8nCustomHeader {
+  name: string;
+  value: string;
 }
 
 export interface N8nServer extends N8nConfig {
   id: string;
   name: string;
+  // Probed on connection, missing until the first probe finishes
+  capabilities?: N8nCapabilities;
+}
+
+/**
+ * Public API features that depend on the n8n version or license
+ */
+export type N8nFeature =
+  | 'projects'
+  | 'variables'
+  | 'sourceControl'
+  | 'executionRetry'
+  | 'executionStop';
+
+export type N8nFeatureSupport =
+  | 'supported'
+  | 'unsupported' // Endpoint missing, the server is too old
+  | 'unlicensed' // Endpoint there, but the license doesn't include it
+  | 'forbidden' // The API key isn't allowed to use it
+  | 'unknown'; // The probe failed for another reason
+
+/**
+ * What a server's public API can do
+ */
+export interface N8nCapabilities {
+  // From the instance settings, missing when the server hides it
+  version?: string;
+  features: Record<N8nFeature, N8nFeatureSupport>;
+  // ISO date of the probe
+  checkedAt: string;
 }
 
 export interface N8nWorkflow {
@@ -23,6 +69,9 @@ export interface N8nWorkflow {
   updatedAt: string;
   tags?: N8nTag[];
   nodes?: N8nNode[];
+  connections?: N8nConnections;
+  settings?: Record<string, unknown>;
+  staticData?: unknown;
 }
 
 export interface N8nExecution {
@@ -34,13 +83,16 @@ export interface N8nExecution {
   startedAt: string;
   stoppedAt?: string;
   workflowId: string;
+  // Snapshot of the workflow as it was when the execution ran
   workflowData?: {
     id: string;
     name: string;
+    nodes?: N8nNode[];
+    connections?: N8nConnections;
   };
   data?: {
     resultData: {
-      runData: Record<string, any>;
+      runData: N8nRunData;
       error?: {
         message: string;
         stack?: string;
@@ -53,7 +105,73 @@ export interface N8nExecution {
       lastNodeExecuted?: string;
     };
   };
-  status?: 'success' | 'error' | 'waiting' | 'running';
+  status?: N8nExecutionStatus;
+}
+
+export type N8nExecutionStatus = 'success' | 'error' | 'waiting' | 'running';
+
+/**
+ * Execution data: every run of every node, keyed by node name
+ */
+export type N8nRunData = Record<string, N8nTaskData[]>;
+
+export type N8nNodeExecutionStatus =
+  | 'success'
+  | 'error'
+  | 'running'
+  | 'waiting'
+  | 'canceled'
+  | 'crashed'
+  | 'unknown';
+
+/**
+ * A single run of a node
+ */
+export interface N8nTaskData {
+  startTime: number;
+  executionTime: number;
+  // Global run order, only sent by newer n8n versions
+  executionIndex?: number;
+  executionStatus?: N8nNodeExecutionStatus;
+  source: (N8nTaskSource | null)[];
+  data?: {
+    main: (N8nNodeExecutionData[] | null)[];
+  };
+  error?: {
+    message: string;
+    description?: string | null;
+    name?: string;
+    stack?: string;
+  };
+}
+
+/**
+ * Which node output fed a run
+ */
+export interface N8nTaskSource {
+  previousNode: string;
+  previousNodeOutput?: number;
+  previousNodeRun?: number;
+}
+
+/**
+ * An item flowing between nodes
+ */
+export interface N8nNodeExecutionData {
+  json: Record<string, unknown>;
+  binary?: Record<string, unknown>;
+}
+
+/**
+ * Filters for listing executions, mapped to the GET /executions query params
+ */
+export interface ExecutionQuery {
+  status?: N8nExecutionStatus;
+  workflowId?: string;
+  projectId?: string;
+  includeData?: boolean;
+  startedAfter?: Date;
+  startedBefore?: Date;
 }
 
 export interface N8nTag {
@@ -68,8 +186,22 @@ export interface N8nNode {
   name: string;
   type: string;
   typeVersion: number;
-  position: [number, number];
+  // Canvas coordinates, missing on nodes created outside the editor
+  position?: [number, number];
   parameters?: Record<string, any>;
+  disabled?: boolean;
+}
+
+/**
+ * Workflow wiring: source node name → connection type (e.g. "main") →
+ * output index → target inputs
+ */
+export type N8nConnections = Record<string, Record<string, (N8nConnection[] | null)[]>>;
+
+export interface N8nConnection {
+  node: string;
+  type: string;
+  index: number;
 }
 
 export interface N8nApiResponse<T> {